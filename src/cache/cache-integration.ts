@@ -1,5 +1,7 @@
 import { DocumentCache, CachedDocument } from './document-cache.js';
 import { ResourceManager } from './resource-manager.js';
+import { SingleFlight } from './single-flight.js';
+import type { ContentBlock } from '../doc-parsers.js';
 
 /**
  * Cache integration configuration
@@ -13,6 +15,8 @@ export interface CacheIntegrationConfig {
   maxCacheSize: number;
   /** Enable/disable automatic LRU eviction */
   autoEvict: boolean;
+  /** How long a page that returned 404 is reported as missing without refetching, in seconds */
+  notFoundTtl: number;
 }
 
 /**
@@ -31,6 +35,28 @@ export interface CacheIntegrationResult {
   error?: string;
 }
 
+/**
+ * Upstream metadata stored alongside a formatted document
+ */
+export interface CacheSourceInfo {
+  /** Raw DocC JSON the document was rendered from */
+  rawJson?: unknown;
+  /** ETag response header */
+  etag?: string;
+  /** Last-Modified response header */
+  lastModified?: string;
+}
+
+/**
+ * Cache lookup result used to decide between serving, revalidating and refetching
+ */
+export interface CacheLookup {
+  /** The cached document */
+  document: CachedDocument;
+  /** Whether the document is still within its TTL */
+  fresh: boolean;
+}
+
 /**
  * Document type detection from URL and content
  */
@@ -45,6 +71,7 @@ export function detectDocumentType(url: string, content?: string): string {
     
     // Check for API documentation patterns
     const segments = path.split('/').filter(s => s.length > 0);
+    if (segments.length === 2) return 'framework'; // /documentation/swiftui
     if (segments.length >= 3) {
       // /documentation/framework/class or /documentation/framework/protocol
       const lastSegment = segments[segments.length - 1];
@@ -52,7 +79,6 @@ export function detectDocumentType(url: string, content?: string): string {
       if (lastSegment.includes('class')) return 'class';
       if (lastSegment.includes('struct')) return 'struct';
       if (lastSegment.includes('enum')) return 'enum';
-      if (segments.length === 2) return 'framework'; // /documentation/swiftui
       return 'api';
     }
   }
@@ -99,6 +125,10 @@ export class CacheIntegration {
   private cache: DocumentCache;
   private resourceManager: ResourceManager;
   private config: CacheIntegrationConfig;
+  /** Fetches in progress, keyed by cache key */
+  private inFlight = new SingleFlight<any>();
+  /** Expiry times of recent 404s, keyed by cache key */
+  private notFound: Map<string, number> = new Map();
 
   constructor(
     cache: DocumentCache,
@@ -112,36 +142,127 @@ export class CacheIntegration {
       registerResources: true,
       maxCacheSize: 1000,
       autoEvict: true,
+      notFoundTtl: 60,
       ...config
     };
   }
 
   /**
-   * Cache-aware wrapper for markdown formatting functions
+   * Build a cache hit result for a cached document
+   */
+  createCacheHit(cached: CachedDocument): CacheIntegrationResult {
+    // Documents cached before content blocks were stored only have markdown
+    const content = cached.content && cached.content.length > 0
+      ? cached.content
+      : [{ type: "text" as const, text: cached.markdown }];
+
+    return {
+      content: cached.structuredContent
+        ? { content, structuredContent: cached.structuredContent }
+        : { content },
+      fromCache: true,
+      cacheKey: cached.hash,
+      resourceUri: this.resourceManager.getResourceUri(cached.hash)
+    };
+  }
+
+  /**
+   * Look up a cached document without formatting, reporting whether it is still fresh
+   * @param url The documentation URL
+   * @returns The lookup result or undefined on a miss (or when caching is disabled)
+   */
+  lookup(url: string): CacheLookup | undefined {
+    if (!this.config.enabled) {
+      return undefined;
+    }
+
+    const document = this.cache.get(url);
+    if (!document) {
+      return undefined;
+    }
+
+    return {
+      document,
+      fresh: !this.cache.isStale(document)
+    };
+  }
+
+  /**
+   * Serve a stale document the upstream confirmed as unchanged (HTTP 304), resetting its TTL
+   * @param url The documentation URL
+   * @param validators Validators from the revalidation response
+   * @returns The cache hit or undefined if the document is no longer cached
+   */
+  serveRevalidated(url: string, validators: { etag?: string; lastModified?: string } = {}): CacheIntegrationResult | undefined {
+    const document = this.cache.touch(url, validators);
+    if (!document) {
+      return undefined;
+    }
+
+    console.error(`♻️ Revalidated ${url}`);
+    return this.createCacheHit(document);
+  }
+
+  /**
+   * Share one fetch and format pass between concurrent requests for the same document
+   * @param url The documentation URL
+   * @param task Fetches and formats the document; its signal aborts only when every caller has cancelled
+   * @param signal Cancels this caller's wait
+   * @returns The task's result
+   */
+  coalesce<T>(url: string, task: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    return this.inFlight.run(this.cache.generateCacheKey(url), task, signal);
+  }
+
+  /**
+   * Remember that a document returned 404 so it is not refetched for a short while
+   * @param url The documentation URL
+   */
+  recordNotFound(url: string): void {
+    const now = Date.now();
+    for (const [key, expiresAt] of this.notFound) {
+      if (expiresAt <= now) {
+        this.notFound.delete(key);
+      }
+    }
+    this.notFound.set(this.cache.generateCacheKey(url), now + this.config.notFoundTtl * 1000);
+  }
+
+  /**
+   * Check whether a document returned 404 within the negative caching window
+   * @param url The documentation URL
+   */
+  isKnownNotFound(url: string): boolean {
+    const key = this.cache.generateCacheKey(url);
+    const expiresAt = this.notFound.get(key);
+    if (expiresAt === undefined) {
+      return false;
+    }
+    if (expiresAt <= Date.now()) {
+      this.notFound.delete(key);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Cache-aware wrapper for markdown formatting functions.
+   * Fresh entries (memory or disk) are served directly; stale entries are re-formatted.
+   * The full ContentBlock array and structured content are cached, so cache hits match misses.
    */
   async cacheAwareFormat(
     url: string,
     formatFunction: () => any,
-    options: { skipCache?: boolean } = {}
+    options: { skipCache?: boolean; source?: CacheSourceInfo } = {}
   ): Promise<CacheIntegrationResult> {
     const cacheKey = this.cache.generateCacheKey(url);
     
     // Check cache first (unless explicitly skipped)
     if (this.config.enabled && !options.skipCache) {
       const cached = this.cache.get(url);
-      if (cached) {
+      if (cached && !this.cache.isStale(cached)) {
         console.error(`📋 Cache hit for ${url}`);
-        return {
-          content: {
-            content: [{
-              type: "text" as const,
-              text: cached.markdown,
-            }],
-          },
-          fromCache: true,
-          cacheKey,
-          resourceUri: this.resourceManager.getResourceUri(cached.hash)
-        };
+        return this.createCacheHit(cached);
       }
     }
 
@@ -155,7 +276,11 @@ export class CacheIntegration {
     // Cache the result if enabled
     if (this.config.enabled && content && !content.isError) {
       try {
-        const markdown = content.content[0].text;
+        const blocks: ContentBlock[] = content.content;
+        const markdown = blocks
+          .filter(block => block.type === 'text')
+          .map(block => block.text || '')
+          .join('\n\n');
         const title = extractTitle(markdown);
         const type = detectDocumentType(url, markdown);
         
@@ -164,14 +289,18 @@ export class CacheIntegration {
           url,
           hash: cacheKey,
           markdown,
+          content: blocks,
+          structuredContent: content.structuredContent,
           title,
           type,
           timestamp: new Date(),
-          accessCount: 0
+          accessCount: 0,
+          etag: options.source?.etag,
+          lastModified: options.source?.lastModified
         };
         
         // Handle cache size limit
-        if (this.config.maxCacheSize > 0 && this.cache.size() >= this.config.maxCacheSize) {
+        if (this.config.maxCacheSize > 0 && !this.cache.has(url) && this.cache.size() >= this.config.maxCacheSize) {
           if (this.config.autoEvict) {
             const evicted = this.cache.evictLRU(1);
             console.error(`🗑️ Evicted ${evicted.length} documents from cache`);
@@ -193,6 +322,9 @@ export class CacheIntegration {
         
         // Store in cache
         this.cache.set(url, cachedDoc);
+        if (options.source?.rawJson !== undefined) {
+          this.cache.setRawJson(url, options.source.rawJson);
+        }
         console.error(`💾 Cached document: ${title} (${type})`);
         
         // Register as MCP resource if enabled
@@ -273,6 +405,7 @@ export class CacheIntegration {
     
     // Clear cache
     this.cache.clear();
+    this.notFound.clear();
     
     console.error('🧹 Cleared all cache and resources');
   }
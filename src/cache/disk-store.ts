@@ -0,0 +1,112 @@
+import { mkdirSync, readdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'fs';
+import path from 'path';
+import type { CachedDocument } from './document-cache.js';
+
+/**
+ * On-disk representation of a cached document (timestamp serialized as ISO string)
+ */
+interface StoredDocument extends Omit<CachedDocument, 'timestamp'> {
+  timestamp: string;
+}
+
+/**
+ * Disk-backed persistence for cached Apple Developer documentation.
+ * Layout: `<dir>/documents/<hash>.json` for cache entries and `<dir>/raw/<hash>.json` for the raw DocC JSON.
+ */
+export class DiskDocumentStore {
+  private documentsDir: string;
+  private rawDir: string;
+
+  constructor(directory: string) {
+    this.documentsDir = path.join(directory, 'documents');
+    this.rawDir = path.join(directory, 'raw');
+    mkdirSync(this.documentsDir, { recursive: true });
+    mkdirSync(this.rawDir, { recursive: true });
+  }
+
+  /**
+   * Write a file atomically so a crash never leaves a truncated entry behind
+   */
+  private writeAtomic(filePath: string, data: string): void {
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    writeFileSync(tempPath, data, 'utf-8');
+    renameSync(tempPath, filePath);
+  }
+
+  /**
+   * Load all persisted documents
+   * @returns Array of cached documents; unreadable entries are skipped and removed
+   */
+  loadAll(): CachedDocument[] {
+    const documents: CachedDocument[] = [];
+
+    for (const entry of readdirSync(this.documentsDir)) {
+      if (!entry.endsWith('.json')) {
+        continue;
+      }
+
+      const filePath = path.join(this.documentsDir, entry);
+      try {
+        const stored = JSON.parse(readFileSync(filePath, 'utf-8')) as StoredDocument;
+        documents.push({
+          ...stored,
+          timestamp: new Date(stored.timestamp)
+        });
+      } catch (error) {
+        console.error(`⚠️ Discarding unreadable cache entry ${filePath}:`, error);
+        rmSync(filePath, { force: true });
+      }
+    }
+
+    return documents;
+  }
+
+  /**
+   * Persist a cached document
+   */
+  save(document: CachedDocument): void {
+    const stored: StoredDocument = {
+      ...document,
+      timestamp: document.timestamp.toISOString()
+    };
+    this.writeAtomic(path.join(this.documentsDir, `${document.hash}.json`), JSON.stringify(stored));
+  }
+
+  /**
+   * Persist the raw DocC JSON a document was rendered from
+   */
+  saveRawJson(hash: string, rawJson: unknown): void {
+    this.writeAtomic(path.join(this.rawDir, `${hash}.json`), JSON.stringify(rawJson));
+  }
+
+  /**
+   * Load the raw DocC JSON for a document
+   * @returns The parsed JSON or undefined if not stored
+   */
+  loadRawJson(hash: string): unknown | undefined {
+    try {
+      return JSON.parse(readFileSync(path.join(this.rawDir, `${hash}.json`), 'utf-8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Remove a document and its raw JSON
+   */
+  delete(hash: string): void {
+    rmSync(path.join(this.documentsDir, `${hash}.json`), { force: true });
+    rmSync(path.join(this.rawDir, `${hash}.json`), { force: true });
+  }
+
+  /**
+   * Remove all persisted documents
+   */
+  clear(): void {
+    for (const dir of [this.documentsDir, this.rawDir]) {
+      for (const entry of readdirSync(dir)) {
+        rmSync(path.join(dir, entry), { force: true });
+      }
+    }
+  }
+}
@@ -1,4 +1,7 @@
 import { createHash } from 'crypto';
+import type { DiskDocumentStore } from './disk-store.js';
+import type { ContentBlock } from '../doc-parsers.js';
+import { DocumentSearchIndex, SearchHit } from './search-index.js';
 
 /**
  * Represents a cached Apple Developer documentation document
@@ -10,6 +13,10 @@ export interface CachedDocument {
   hash: string;
   /** Formatted markdown content */
   markdown: string;
+  /** Full rendered content blocks (text and resource links) as returned on a cache miss */
+  content?: ContentBlock[];
+  /** Structured render result (tool `structuredContent`) */
+  structuredContent?: Record<string, unknown>;
   /** Document title */
   title: string;
   /** Documentation type (api, guide, framework, etc.) */
@@ -18,8 +25,30 @@ export interface CachedDocument {
   timestamp: Date;
   /** Usage tracking for LRU eviction */
   accessCount: number;
+  /** ETag returned by the upstream, used for revalidation */
+  etag?: string;
+  /** Last-Modified returned by the upstream, used for revalidation */
+  lastModified?: string;
 }
 
+/**
+ * Document cache options
+ */
+export interface DocumentCacheOptions {
+  /** Disk store for persistence across sessions (in-memory only when omitted) */
+  store?: DiskDocumentStore;
+  /** Time-to-live in seconds per document type; `default` applies to unlisted types */
+  ttl?: Record<string, number>;
+}
+
+/**
+ * Default time-to-live in seconds per document type
+ */
+export const DEFAULT_CACHE_TTL: Record<string, number> = {
+  default: 24 * 60 * 60,
+  framework: 6 * 60 * 60
+};
+
 /**
  * Cache statistics for monitoring and optimization
  */
@@ -35,11 +64,45 @@ export interface CacheStats {
 }
 
 /**
- * In-memory cache for Apple Developer documentation markdown content
+ * In-memory cache for Apple Developer documentation markdown content, optionally persisted to disk
  * Uses URL-based hashing for consistent cache keys and resource URIs
  */
 export class DocumentCache {
   private cache: Map<string, CachedDocument> = new Map();
+  private store?: DiskDocumentStore;
+  private ttl: Record<string, number>;
+  private index: DocumentSearchIndex = new DocumentSearchIndex();
+
+  constructor(options: DocumentCacheOptions = {}) {
+    this.store = options.store;
+    this.ttl = { ...DEFAULT_CACHE_TTL, ...options.ttl };
+
+    if (this.store) {
+      try {
+        for (const document of this.store.loadAll()) {
+          this.cache.set(document.hash, document);
+          this.index.add(document);
+        }
+        console.error(`📂 Loaded ${this.cache.size} documents from disk cache`);
+      } catch (error) {
+        console.error('❌ Failed to load disk cache:', error);
+      }
+    }
+  }
+
+  /**
+   * Run a disk store operation, logging failures instead of throwing
+   */
+  private persist(operation: (store: DiskDocumentStore) => void): void {
+    if (!this.store) {
+      return;
+    }
+    try {
+      operation(this.store);
+    } catch (error) {
+      console.error('❌ Disk cache write failed:', error);
+    }
+  }
 
   /**
    * Generate a consistent cache key from a URL using SHA-256 hashing
@@ -62,6 +125,66 @@ export class DocumentCache {
     document.timestamp = new Date(); // Update cache timestamp
     
     this.cache.set(document.hash, document);
+    this.index.add(document);
+    this.persist(store => store.save(document));
+  }
+
+  /**
+   * Store the raw DocC JSON a cached document was rendered from (disk cache only)
+   * @param url The documentation URL
+   * @param rawJson The raw JSON data
+   */
+  setRawJson(url: string, rawJson: unknown): void {
+    const hash = this.generateCacheKey(url);
+    this.persist(store => store.saveRawJson(hash, rawJson));
+  }
+
+  /**
+   * Retrieve the raw DocC JSON for a cached document
+   * @param url The documentation URL
+   * @returns The raw JSON or undefined if not stored
+   */
+  getRawJson(url: string): unknown | undefined {
+    return this.store?.loadRawJson(this.generateCacheKey(url));
+  }
+
+  /**
+   * Get the time-to-live in seconds for a document type
+   * @param type The document type
+   * @returns TTL in seconds
+   */
+  getTtl(type: string): number {
+    return this.ttl[type] ?? this.ttl.default;
+  }
+
+  /**
+   * Check whether a document has outlived its type's TTL
+   * @param document The cached document
+   * @returns True if the document should be revalidated
+   */
+  isStale(document: CachedDocument): boolean {
+    const ageSeconds = (Date.now() - document.timestamp.getTime()) / 1000;
+    return ageSeconds > this.getTtl(document.type);
+  }
+
+  /**
+   * Mark a document as fresh again after the upstream confirmed it is unchanged
+   * @param url The documentation URL
+   * @param validators Updated validators from the revalidation response
+   * @returns The refreshed document or undefined if not cached
+   */
+  touch(url: string, validators: { etag?: string; lastModified?: string } = {}): CachedDocument | undefined {
+    const document = this.cache.get(this.generateCacheKey(url));
+    if (!document) {
+      return undefined;
+    }
+
+    document.timestamp = new Date();
+    document.etag = validators.etag || document.etag;
+    document.lastModified = validators.lastModified || document.lastModified;
+    this.persist(store => store.save(document));
+
+    return document;
   }
 
   /**
@@ -113,8 +236,7 @@ export class DocumentCache {
    * @returns True if the document was removed
    */
   delete(url: string): boolean {
-    const hash = this.generateCacheKey(url);
-    return this.cache.delete(hash);
+    return this.deleteByHash(this.generateCacheKey(url));
   }
 
   /**
@@ -123,6 +245,8 @@ export class DocumentCache {
    * @returns True if the document was removed
    */
   deleteByHash(hash: string): boolean {
+    this.index.remove(hash);
+    this.persist(store => store.delete(hash));
     return this.cache.delete(hash);
   }
 
@@ -155,6 +279,18 @@ export class DocumentCache {
    */
   clear(): void {
     this.cache.clear();
+    this.index.clear();
+    this.persist(store => store.clear());
+  }
+
+  /**
+   * Full-text search across cached documents (titles, declarations, abstracts and body text)
+   * @param query Free-text query
+   * @param limit Maximum number of hits
+   * @returns Hits ordered by relevance
+   */
+  search(query: string, limit: number = 10): SearchHit[] {
+    return this.index.search(query, limit);
   }
 
   /**
@@ -214,7 +350,7 @@ export class DocumentCache {
     const evictedHashes: string[] = [];
     
     for (const doc of toEvict) {
-      if (this.cache.delete(doc.hash)) {
+      if (this.deleteByHash(doc.hash)) {
         evictedHashes.push(doc.hash);
       }
     }
@@ -0,0 +1,348 @@
+import type { CachedDocument } from './document-cache.js';
+
+/**
+ * Searchable fields of a document, in the order they are weighted
+ */
+type IndexedField = 'title' | 'declaration' | 'abstract' | 'body';
+
+/**
+ * BM25 search index configuration
+ */
+export interface SearchIndexConfig {
+  /** Term frequency saturation */
+  k1: number;
+  /** Document length normalization */
+  b: number;
+  /** Weight of a term occurrence per field */
+  fieldWeights: Record<IndexedField, number>;
+  /** Maximum snippet length in characters */
+  snippetLength: number;
+}
+
+/**
+ * A search hit with a highlighted snippet
+ */
+export interface SearchHit {
+  title: string;
+  url: string;
+  type: string;
+  /** Page kind as rendered (Class, Article, Sample Code, ...), when known */
+  kind?: string;
+  score: number;
+  /** Body excerpt around the best match, with matched terms in **bold** */
+  snippet: string;
+}
+
+/**
+ * Per-document index entry
+ */
+interface IndexedDocument {
+  url: string;
+  title: string;
+  type: string;
+  kind?: string;
+  /** Plain body text used for snippets */
+  text: string;
+  /** Weighted term frequencies */
+  termFrequencies: Map<string, number>;
+  /** Weighted document length */
+  length: number;
+}
+
+/**
+ * Words too common in documentation to be useful for ranking
+ */
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'i', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'when', 'with', 'you', 'your'
+]);
+
+/**
+ * Split text into index terms.
+ * Identifiers are indexed whole and by their camelCase parts, so `MKPolygon` matches both `mkpolygon` and `polygon`.
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+
+  for (const word of text.match(/[A-Za-z0-9_]+/g) || []) {
+    const lower = word.toLowerCase();
+    if (!STOP_WORDS.has(lower)) {
+      terms.push(lower);
+    }
+
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(/[\s_]+/)
+      .filter(part => part.length > 1);
+    if (parts.length > 1) {
+      parts.forEach(part => terms.push(part.toLowerCase()));
+    }
+  }
+
+  return terms;
+}
+
+/**
+ * Reduce rendered Markdown to plain text for indexing and snippets
+ */
+function markdownToText(markdown: string): string {
+  return markdown
+    .replace(/^\*\*Source:\*\*.*$/gm, '')
+    .replace(/```[^\n]*\n([\s\S]*?)```/g, '$1')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/https?:\/\/\S+/g, '')
+    .replace(/^\s{0,3}(#{1,6}|>|[-*]|\d+\.)\s+/gm, '')
+    .replace(/[`*_|]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Find the words, and camelCase parts of words, that equal a query term, as `[start, end)` spans in text order.
+ * Words are split where `tokenize` splits them, so `polygons` matches in `interiorPolygons` but `view` not in `preview`.
+ */
+function findTermSpans(text: string, terms: Set<string>): Array<[number, number]> {
+  const spans: Array<[number, number]> = [];
+
+  for (const match of text.matchAll(/[A-Za-z0-9_]+/g)) {
+    const word = match[0];
+    const wordStart = match.index!;
+    if (terms.has(word.toLowerCase())) {
+      spans.push([wordStart, wordStart + word.length]);
+      continue;
+    }
+
+    // Mark the split points with NUL so part offsets can be mapped back to the word
+    const marked = word
+      .replace(/([a-z0-9])([A-Z])/g, '$1\0$2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1\0$2');
+    let markers = 0;
+    let scanned = 0;
+    for (const part of marked.matchAll(/[^\0_]+/g)) {
+      for (; scanned < part.index!; scanned++) {
+        if (marked[scanned] === '\0') {
+          markers++;
+        }
+      }
+      if (part[0].length > 1 && terms.has(part[0].toLowerCase())) {
+        const partStart = wordStart + part.index! - markers;
+        spans.push([partStart, partStart + part[0].length]);
+      }
+    }
+  }
+
+  return spans;
+}
+
+/**
+ * In-memory BM25 full-text index over cached documentation.
+ * Documents are added and removed incrementally as the cache changes.
+ */
+export class DocumentSearchIndex {
+  private config: SearchIndexConfig;
+  private documents: Map<string, IndexedDocument> = new Map();
+  /** Term → hashes of documents containing it */
+  private postings: Map<string, Set<string>> = new Map();
+  private totalLength = 0;
+
+  constructor(config: Partial<SearchIndexConfig> = {}) {
+    this.config = {
+      k1: 1.2,
+      b: 0.75,
+      fieldWeights: {
+        title: 4,
+        declaration: 3,
+        abstract: 2,
+        body: 1
+      },
+      snippetLength: 200,
+      ...config
+    };
+  }
+
+  /**
+   * Add or replace a cached document in the index
+   * @param document The cached document
+   */
+  add(document: CachedDocument): void {
+    this.remove(document.hash);
+
+    const structured = document.structuredContent || {};
+    const text = markdownToText(document.markdown);
+    const fields: Record<IndexedField, string> = {
+      title: document.title,
+      declaration: typeof structured.declaration === 'string' ? structured.declaration : '',
+      abstract: typeof structured.abstract === 'string' ? structured.abstract : '',
+      body: text
+    };
+
+    const termFrequencies = new Map<string, number>();
+    let length = 0;
+    for (const field of Object.keys(fields) as IndexedField[]) {
+      const weight = this.config.fieldWeights[field];
+      for (const term of tokenize(fields[field])) {
+        termFrequencies.set(term, (termFrequencies.get(term) || 0) + weight);
+        length += weight;
+      }
+    }
+
+    for (const term of termFrequencies.keys()) {
+      let hashes = this.postings.get(term);
+      if (!hashes) {
+        hashes = new Set();
+        this.postings.set(term, hashes);
+      }
+      hashes.add(document.hash);
+    }
+
+    this.documents.set(document.hash, {
+      url: document.url,
+      title: document.title,
+      type: document.type,
+      ...(typeof structured.kind === 'string' ? { kind: structured.kind } : {}),
+      text,
+      termFrequencies,
+      length
+    });
+    this.totalLength += length;
+  }
+
+  /**
+   * Remove a document from the index
+   * @param hash The document hash
+   */
+  remove(hash: string): void {
+    const indexed = this.documents.get(hash);
+    if (!indexed) {
+      return;
+    }
+
+    for (const term of indexed.termFrequencies.keys()) {
+      const hashes = this.postings.get(term);
+      hashes?.delete(hash);
+      if (hashes && hashes.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+
+    this.totalLength -= indexed.length;
+    this.documents.delete(hash);
+  }
+
+  /**
+   * Remove all documents from the index
+   */
+  clear(): void {
+    this.documents.clear();
+    this.postings.clear();
+    this.totalLength = 0;
+  }
+
+  /**
+   * Get the number of indexed documents
+   */
+  size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Search the index
+   * @param query Free-text query
+   * @param limit Maximum number of hits
+   * @returns Hits ordered by descending BM25 score
+   */
+  search(query: string, limit: number = 10): SearchHit[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    const documentCount = this.documents.size;
+    if (terms.length === 0 || documentCount === 0) {
+      return [];
+    }
+
+    const { k1, b } = this.config;
+    const averageLength = this.totalLength / documentCount;
+    const scores = new Map<string, number>();
+
+    for (const term of terms) {
+      const hashes = this.postings.get(term);
+      if (!hashes) {
+        continue;
+      }
+
+      const idf = Math.log(1 + (documentCount - hashes.size + 0.5) / (hashes.size + 0.5));
+      for (const hash of hashes) {
+        const indexed = this.documents.get(hash)!;
+        const frequency = indexed.termFrequencies.get(term) || 0;
+        const normalization = k1 * (1 - b + b * (indexed.length / averageLength));
+        const termScore = idf * (frequency * (k1 + 1)) / (frequency + normalization);
+        scores.set(hash, (scores.get(hash) || 0) + termScore);
+      }
+    }
+
+    return Array.from(scores.entries())
+      .sort((a, c) => c[1] - a[1])
+      .slice(0, limit)
+      .map(([hash, score]) => {
+        const indexed = this.documents.get(hash)!;
+        return {
+          title: indexed.title,
+          url: indexed.url,
+          type: indexed.type,
+          ...(indexed.kind ? { kind: indexed.kind } : {}),
+          score: Math.round(score * 1000) / 1000,
+          snippet: this.createSnippet(indexed.text, terms)
+        };
+      });
+  }
+
+  /**
+   * Build a snippet around the densest cluster of query terms, highlighting matches
+   */
+  private createSnippet(text: string, terms: string[]): string {
+    const { snippetLength } = this.config;
+    const spans = findTermSpans(text, new Set(terms));
+
+    // Pick the window start that covers the most term occurrences, sliding over the matches once
+    let start = 0;
+    let bestCount = 0;
+    for (let first = 0, last = 0; first < spans.length; first++) {
+      while (last < spans.length && spans[last][0] < spans[first][0] + snippetLength) {
+        last++;
+      }
+      if (last - first > bestCount) {
+        bestCount = last - first;
+        start = spans[first][0];
+      }
+    }
+
+    // Back up to a word boundary so the match has some leading context
+    start = Math.max(0, start - Math.floor(snippetLength / 4));
+    if (start > 0) {
+      const space = text.indexOf(' ', start);
+      start = space === -1 ? start : space + 1;
+    }
+    let end = Math.min(text.length, start + snippetLength);
+    if (end < text.length) {
+      const space = text.lastIndexOf(' ', end);
+      end = space > start ? space : end;
+    }
+
+    // Adjacent matches (e.g. both parts of `interiorPolygons`) share one highlight
+    let excerpt = '';
+    let position = start;
+    let highlightEnd = -1;
+    for (const [spanStart, spanEnd] of spans) {
+      if (spanStart < start || spanEnd > end) {
+        continue;
+      }
+      excerpt = spanStart === highlightEnd
+        ? `${excerpt.slice(0, -2)}${text.slice(spanStart, spanEnd)}**`
+        : `${excerpt}${text.slice(position, spanStart)}**${text.slice(spanStart, spanEnd)}**`;
+      position = highlightEnd = spanEnd;
+    }
+    excerpt += text.slice(position, end);
+
+    return `${start > 0 ? '…' : ''}${excerpt}${end < text.length ? '…' : ''}`;
+  }
+}
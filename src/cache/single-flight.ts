@@ -0,0 +1,68 @@
+import { raceCancellation, throwIfCancelled } from '../cancellation.js';
+
+/**
+ * A shared in-flight task
+ */
+interface Flight<T> {
+  promise: Promise<T>;
+  /** Aborts the task once every waiter has cancelled */
+  controller: AbortController;
+  waiters: number;
+}
+
+/**
+ * Coalesces concurrent calls for the same key into one execution of the task.
+ * Each caller can cancel independently; the shared task is only aborted when all of them have.
+ */
+export class SingleFlight<T> {
+  private flights: Map<string, Flight<T>> = new Map();
+
+  /**
+   * Run a task, or join the one already running for the key
+   * @param key Identifies equivalent tasks
+   * @param task The work to do; receives a signal that aborts when every caller has cancelled
+   * @param signal Cancels this caller's wait
+   * @returns The task's result
+   */
+  async run(key: string, task: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    throwIfCancelled(signal);
+
+    let flight = this.flights.get(key);
+    if (!flight) {
+      const controller = new AbortController();
+      const created: Flight<T> = {
+        promise: task(controller.signal).finally(() => {
+          if (this.flights.get(key) === created) {
+            this.flights.delete(key);
+          }
+        }),
+        controller,
+        waiters: 0
+      };
+      this.flights.set(key, created);
+      flight = created;
+    }
+
+    const current = flight;
+    current.waiters++;
+    try {
+      return await raceCancellation(current.promise, signal);
+    } finally {
+      current.waiters--;
+      if (current.waiters === 0 && signal?.aborted) {
+        // Nobody is waiting any more; stop the work and let later callers start afresh
+        current.controller.abort();
+        if (this.flights.get(key) === current) {
+          this.flights.delete(key);
+        }
+      }
+    }
+  }
+
+  /**
+   * Get the number of tasks currently running
+   */
+  size(): number {
+    return this.flights.size;
+  }
+}
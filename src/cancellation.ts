@@ -0,0 +1,102 @@
+/**
+ * Message of errors raised when a request is cancelled by the client
+ */
+const CANCELLED_MESSAGE = 'Request cancelled';
+
+/**
+ * Create the error raised when a request is cancelled
+ */
+export function createCancellationError(): Error {
+  const error = new Error(CANCELLED_MESSAGE);
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * Throw if the request has been cancelled
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createCancellationError();
+  }
+}
+
+/**
+ * Wait for the given number of milliseconds, rejecting early if the request is cancelled
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createCancellationError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createCancellationError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Wait for a promise, rejecting early if the request is cancelled (the promise itself keeps running)
+ */
+export function raceCancellation<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(createCancellationError());
+      return;
+    }
+
+    const onAbort = () => reject(createCancellationError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Derive a signal that aborts when the parent signal does or when the timeout elapses
+ * @returns The signal, whether it timed out, and a function that clears the timer once the work is done
+ */
+export function withTimeout(parent: AbortSignal | undefined, ms: number): { signal: AbortSignal; timedOut: () => boolean; clear: () => void } {
+  const controller = new AbortController();
+  let expired = false;
+
+  const onAbort = () => controller.abort();
+  const timer = setTimeout(() => {
+    expired = true;
+    controller.abort();
+  }, ms);
+  if (parent?.aborted) {
+    controller.abort();
+  } else {
+    parent?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  return {
+    signal: controller.signal,
+    timedOut: () => expired,
+    clear: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onAbort);
+    }
+  };
+}
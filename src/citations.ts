@@ -0,0 +1,131 @@
+/**
+ * Outcome of checking the `[n]` citations in a research answer
+ */
+export type CitationReport = {
+  /** Source numbers cited at least once, ascending */
+  cited: number[];
+  /** Cited numbers that do not match any source */
+  invalid: number[];
+  /** Prose paragraphs that cite no source */
+  uncitedParagraphs: number;
+};
+
+/**
+ * Inline citations: `[1]`, `[2, 3]` or `[1][4]` (not Markdown links, which are followed by `(`)
+ */
+const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\](?!\()/g;
+
+/**
+ * Inline code spans (`` `points[0]` ``), whose brackets are code rather than citations
+ */
+const CODE_SPAN_PATTERN = /(`+)[\s\S]*?\1/g;
+
+/**
+ * Marker appended to paragraphs without a citation
+ */
+const UNCITED_MARKER = '*[uncited]*';
+
+/**
+ * Whether a block is a prose paragraph, the only kind of block marked when it cites nothing.
+ * Headings, code, rules, lists, tables, quotes and lead-ins to a code listing (ending in a colon) are exempt,
+ * since a marker appended to them would break their Markdown or flag text that states nothing.
+ */
+function isProseParagraph(block: string): boolean {
+  const trimmed = block.trim();
+  return !/^(#{1,6}\s|```|~~~|---+$|\*\*\*+$|[-*+]\s|\d+[.)]\s|\||>|<)/.test(trimmed) && !trimmed.endsWith(':');
+}
+
+/**
+ * Apply a replacement to the parts of a block outside inline code spans
+ */
+function replaceOutsideCode(block: string, replace: (text: string) => string): string {
+  let result = '';
+  let last = 0;
+  for (const match of block.matchAll(CODE_SPAN_PATTERN)) {
+    result += replace(block.slice(last, match.index)) + match[0];
+    last = match.index! + match[0].length;
+  }
+  return result + replace(block.slice(last));
+}
+
+/**
+ * Validate the citations in a sampled answer against the numbered sources it was given.
+ * Citations of unknown sources are marked `[n?]` and prose paragraphs without any citation get an `*[uncited]*` marker,
+ * so readers can see which claims are not backed by the documentation.
+ * @param answer Markdown answer from the model
+ * @param sourceCount Number of sources in the prompt, numbered from 1
+ * @returns The annotated answer and what was found
+ */
+export function checkCitations(answer: string, sourceCount: number): { text: string; report: CitationReport } {
+  const cited = new Set<number>();
+  const invalid = new Set<number>();
+  let uncitedParagraphs = 0;
+
+  const annotateCitations = (block: string): string =>
+    replaceOutsideCode(block, text => text.replace(CITATION_PATTERN, (_, numbers: string) => `[${numbers.split(',').map(value => {
+      const number = Number(value.trim());
+      if (number >= 1 && number <= sourceCount) {
+        cited.add(number);
+        return String(number);
+      }
+      invalid.add(number);
+      return `${number}?`;
+    }).join(', ')}]`));
+
+  // Split into blocks at blank lines, keeping fenced code blocks whole
+  const blocks: string[] = [];
+  let current: string[] = [];
+  let inFence = false;
+  for (const line of answer.trim().split('\n')) {
+    if (/^\s*```/.test(line)) {
+      inFence = !inFence;
+    }
+    if (!inFence && line.trim() === '') {
+      if (current.length > 0) {
+        blocks.push(current.join('\n'));
+        current = [];
+      }
+      continue;
+    }
+    current.push(line);
+  }
+  if (current.length > 0) {
+    blocks.push(current.join('\n'));
+  }
+
+  const text = blocks.map(block => {
+    if (/^\s*```/.test(block)) {
+      return block;
+    }
+    const hadCitation = block.replace(CODE_SPAN_PATTERN, '').search(CITATION_PATTERN) !== -1;
+    const annotated = annotateCitations(block);
+    if (!hadCitation && isProseParagraph(block)) {
+      uncitedParagraphs++;
+      return `${annotated} ${UNCITED_MARKER}`;
+    }
+    return annotated;
+  }).join('\n\n');
+
+  return {
+    text,
+    report: {
+      cited: [...cited].sort((a, b) => a - b),
+      invalid: [...invalid].sort((a, b) => a - b),
+      uncitedParagraphs
+    }
+  };
+}
+
+/**
+ * Describe problems found by `checkCitations`, or return an empty string when every paragraph cites a valid source
+ */
+export function describeCitationReport(report: CitationReport): string {
+  const problems: string[] = [];
+  if (report.invalid.length > 0) {
+    problems.push(`${report.invalid.map(number => `[${number}]`).join(', ')} ${report.invalid.length === 1 ? 'does' : 'do'} not match any source (marked \`?\`)`);
+  }
+  if (report.uncitedParagraphs > 0) {
+    problems.push(`${report.uncitedParagraphs} ${report.uncitedParagraphs === 1 ? 'paragraph cites' : 'paragraphs cite'} no source (marked ${UNCITED_MARKER})`);
+  }
+  return problems.length > 0 ? `**Citation check:** ${problems.join('; ')}.` : '';
+}
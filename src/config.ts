@@ -0,0 +1,276 @@
+import { readFileSync } from 'fs';
+import { homedir } from 'os';
+import path from 'path';
+
+/**
+ * Canonical origin of Apple's developer website
+ */
+export const APPLE_DEVELOPER_BASE_URL = 'https://developer.apple.com';
+
+/**
+ * Canonical origin of Apple's documentation assets (sample code ZIPs, etc.)
+ */
+export const APPLE_DOCS_ASSETS_BASE_URL = 'https://docs-assets.developer.apple.com';
+
+/**
+ * Upstream configuration describing where Apple content is actually fetched from.
+ * Each base can be an http(s) URL, a file:// URL or a local directory laid out like `examples/`.
+ */
+export interface UpstreamConfig {
+  /** Base serving the developer.apple.com file structure */
+  developerBaseUrl: string;
+  /** Base serving the docs-assets.developer.apple.com file structure */
+  assetsBaseUrl: string;
+}
+
+/**
+ * Document cache configuration
+ */
+export interface CacheConfig {
+  /** Directory for the persistent cache, or null to keep the cache in memory only */
+  directory: string | null;
+  /** Time-to-live in seconds per document type; `default` applies to unlisted types */
+  ttl: Record<string, number>;
+}
+
+/**
+ * HTTP client configuration for requests to the upstream servers
+ */
+export interface HttpConfig {
+  /** Per-request timeout in seconds, until the response body has been read */
+  timeout: number;
+  /** Retries after a 429, a 5xx response, a timeout or a network error */
+  retries: number;
+  /** Base delay of the exponential backoff in seconds */
+  retryBaseDelay: number;
+  /** Longest wait before a retry in seconds, including `Retry-After` */
+  maxRetryDelay: number;
+  /** Maximum simultaneous requests per host */
+  maxConcurrency: number;
+  /** Maximum requests started per second per host; 0 for no limit */
+  requestsPerSecond: number;
+}
+
+/**
+ * Server configuration loaded from the config file and environment
+ */
+export interface ServerConfig {
+  upstream: UpstreamConfig;
+  cache: CacheConfig;
+  http: HttpConfig;
+}
+
+/**
+ * Default persistent cache location
+ */
+export const DEFAULT_CACHE_DIR = path.join(homedir(), '.cache', 'apple-developer-docs-mcp');
+
+/**
+ * Default HTTP client settings
+ */
+export const DEFAULT_HTTP_CONFIG: HttpConfig = {
+  timeout: 30,
+  retries: 3,
+  retryBaseDelay: 0.5,
+  maxRetryDelay: 30,
+  maxConcurrency: 4,
+  requestsPerSecond: 10
+};
+
+/**
+ * Shape of the optional JSON config file (all fields optional)
+ */
+interface ConfigFile {
+  upstream?: {
+    /** Mirror root; developer content at the root, assets under `doc-assets/` */
+    mirror?: string;
+    developerBaseUrl?: string;
+    assetsBaseUrl?: string;
+  };
+  cache?: {
+    /** Cache directory, or null to disable persistence */
+    directory?: string | null;
+    ttl?: Record<string, number>;
+  };
+  http?: Partial<HttpConfig>;
+}
+
+let currentConfig: ServerConfig | null = null;
+
+/**
+ * Resolve a configured location relative to the config file directory.
+ * URLs (http:, https:, file:) are returned unchanged.
+ */
+function resolveLocation(location: string, baseDir: string): string {
+  if (/^(https?|file):\/\//i.test(location)) {
+    return location.replace(/\/+$/, '');
+  }
+  return path.resolve(baseDir, location);
+}
+
+/**
+ * Join a sub path onto a location that may be a URL or a directory
+ */
+function joinLocation(location: string, subPath: string): string {
+  if (/^(https?|file):\/\//i.test(location)) {
+    return `${location.replace(/\/+$/, '')}/${subPath}`;
+  }
+  return path.join(location, subPath);
+}
+
+/**
+ * Whether a setting is a finite non-negative number, or a positive one when zero is not allowed
+ */
+function isValidNumber(value: unknown, positive: boolean): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && (positive ? value > 0 : value >= 0);
+}
+
+/**
+ * Error for a setting that failed isValidNumber
+ */
+function invalidNumberError(source: string, unit: string, positive: boolean, got: string): Error {
+  return new Error(`${source} must be a ${positive ? 'positive' : 'non-negative'} number of ${unit}, got ${got}`);
+}
+
+/**
+ * Read a non-negative (or positive) number from the environment
+ * @returns The value, or undefined if the variable is not set
+ */
+function readNumberEnv(name: string, unit: string, positive: boolean = false): number | undefined {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') {
+    return undefined;
+  }
+  const value = Number(raw);
+  if (!isValidNumber(value, positive)) {
+    throw invalidNumberError(name, unit, positive, `"${raw}"`);
+  }
+  return value;
+}
+
+/**
+ * Read the JSON config file named by APPLE_DOCS_MCP_CONFIG, if any
+ */
+function readConfigFile(): { file: ConfigFile; baseDir: string } {
+  const configPath = process.env.APPLE_DOCS_MCP_CONFIG;
+  if (!configPath) {
+    return { file: {}, baseDir: process.cwd() };
+  }
+
+  const resolvedPath = path.resolve(configPath);
+  try {
+    const file = JSON.parse(readFileSync(resolvedPath, 'utf-8')) as ConfigFile;
+    return { file, baseDir: path.dirname(resolvedPath) };
+  } catch (error) {
+    throw new Error(`Failed to read config file ${resolvedPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Load the server configuration.
+ * Precedence: APPLE_DOCS_BASE_URL / APPLE_DOCS_ASSETS_BASE_URL, then APPLE_DOCS_MIRROR,
+ * then the config file, then Apple's public servers. Other settings follow the same
+ * environment-over-file-over-default order.
+ */
+export function loadConfig(): ServerConfig {
+  const { file, baseDir } = readConfigFile();
+  const cwd = process.cwd();
+
+  let developerBaseUrl = APPLE_DEVELOPER_BASE_URL;
+  let assetsBaseUrl = APPLE_DOCS_ASSETS_BASE_URL;
+
+  // Config file values
+  if (file.upstream?.mirror) {
+    developerBaseUrl = resolveLocation(file.upstream.mirror, baseDir);
+    assetsBaseUrl = joinLocation(developerBaseUrl, 'doc-assets');
+  }
+  if (file.upstream?.developerBaseUrl) {
+    developerBaseUrl = resolveLocation(file.upstream.developerBaseUrl, baseDir);
+  }
+  if (file.upstream?.assetsBaseUrl) {
+    assetsBaseUrl = resolveLocation(file.upstream.assetsBaseUrl, baseDir);
+  }
+
+  // Environment overrides
+  if (process.env.APPLE_DOCS_MIRROR) {
+    developerBaseUrl = resolveLocation(process.env.APPLE_DOCS_MIRROR, cwd);
+    assetsBaseUrl = joinLocation(developerBaseUrl, 'doc-assets');
+  }
+  if (process.env.APPLE_DOCS_BASE_URL) {
+    developerBaseUrl = resolveLocation(process.env.APPLE_DOCS_BASE_URL, cwd);
+  }
+  if (process.env.APPLE_DOCS_ASSETS_BASE_URL) {
+    assetsBaseUrl = resolveLocation(process.env.APPLE_DOCS_ASSETS_BASE_URL, cwd);
+  }
+
+  // Cache settings
+  let cacheDirectory: string | null = DEFAULT_CACHE_DIR;
+  if (file.cache?.directory !== undefined) {
+    cacheDirectory = file.cache.directory === null ? null : path.resolve(baseDir, file.cache.directory);
+  }
+  if (process.env.APPLE_DOCS_CACHE_DIR !== undefined) {
+    const envDir = process.env.APPLE_DOCS_CACHE_DIR.trim();
+    cacheDirectory = envDir === '' || envDir.toLowerCase() === 'none' ? null : path.resolve(cwd, envDir);
+  }
+
+  const ttl: Record<string, number> = { ...file.cache?.ttl };
+  const defaultTtl = readNumberEnv('APPLE_DOCS_CACHE_TTL', 'seconds');
+  if (defaultTtl !== undefined) {
+    ttl.default = defaultTtl;
+  }
+
+  // HTTP client settings, checked alike from both sources; a zero timeout would fail every request
+  const http: HttpConfig = { ...DEFAULT_HTTP_CONFIG };
+  const httpSettings: Array<[keyof HttpConfig, string | undefined, string, boolean]> = [
+    ['timeout', 'APPLE_DOCS_HTTP_TIMEOUT', 'seconds', true],
+    ['retries', 'APPLE_DOCS_HTTP_RETRIES', 'retries', false],
+    ['retryBaseDelay', undefined, 'seconds', false],
+    ['maxRetryDelay', undefined, 'seconds', false],
+    ['maxConcurrency', 'APPLE_DOCS_HTTP_CONCURRENCY', 'requests', false],
+    ['requestsPerSecond', 'APPLE_DOCS_HTTP_RATE_LIMIT', 'requests per second', false],
+  ];
+  for (const [key, name, unit, positive] of httpSettings) {
+    const fileValue: unknown = file.http?.[key];
+    if (fileValue !== undefined) {
+      if (!isValidNumber(fileValue, positive)) {
+        throw invalidNumberError(`http.${key} in the config file`, unit, positive, JSON.stringify(fileValue));
+      }
+      http[key] = fileValue;
+    }
+    const envValue = name ? readNumberEnv(name, unit, positive) : undefined;
+    if (envValue !== undefined) {
+      http[key] = envValue;
+    }
+  }
+  http.maxConcurrency = Math.max(1, Math.floor(http.maxConcurrency));
+  http.retries = Math.floor(http.retries);
+
+  return {
+    upstream: {
+      developerBaseUrl,
+      assetsBaseUrl
+    },
+    cache: {
+      directory: cacheDirectory,
+      ttl
+    },
+    http
+  };
+}
+
+/**
+ * Get the active server configuration, loading it on first use
+ */
+export function getConfig(): ServerConfig {
+  if (!currentConfig) {
+    currentConfig = loadConfig();
+  }
+  return currentConfig;
+}
+
+/**
+ * Replace the active server configuration
+ */
+export function setConfig(config: ServerConfig): void {
+  currentConfig = config;
+}
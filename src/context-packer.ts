@@ -0,0 +1,291 @@
+import { tokenize } from './cache/search-index.js';
+
+/**
+ * A fetched document to pack into a sampling prompt
+ */
+export interface ContextDocument {
+  title: string;
+  url: string;
+  type: string;
+  /** Rendered Markdown */
+  content: string;
+}
+
+/**
+ * A section (or part of a long section) of a document
+ */
+export interface ContextChunk {
+  /** Index of the document in the input list */
+  documentIndex: number;
+  /** Position of the chunk within its document */
+  position: number;
+  /** Section heading, empty for the text before the first section */
+  heading: string;
+  /** Markdown of the chunk, including its heading */
+  text: string;
+  tokens: number;
+  /** Relevance to the question; higher is better */
+  score: number;
+}
+
+/**
+ * Context packing configuration
+ */
+export interface ContextPackingConfig {
+  /** Token budget of the packed context */
+  maxTokens: number;
+  /** Sections longer than this are split at paragraph boundaries, in tokens */
+  maxChunkTokens: number;
+  /** Source number of the first document, when documents are packed one at a time */
+  firstSourceNumber: number;
+}
+
+/**
+ * How much a section is worth relative to its text relevance.
+ * Declarations and discussion answer questions; topic lists and availability are mostly boilerplate.
+ */
+const SECTION_WEIGHTS: Record<string, number> = {
+  '': 1.2,
+  'overview': 1.3,
+  'declaration': 1.5,
+  'description': 1.3,
+  'discussion': 1.3,
+  'parameters': 1.2,
+  'return value': 1.2,
+  'availability': 0.3,
+  'topics': 0.4,
+  'relationships': 0.3,
+  'see also': 0.2
+};
+
+/**
+ * BM25 parameters for chunk scoring
+ */
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/**
+ * Estimate the token count of a text (about four characters per token for English prose and code)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Split Markdown into paragraph-level blocks, keeping fenced code blocks whole
+ */
+export function splitBlocks(markdown: string): string[] {
+  const blocks: string[] = [];
+  let current: string[] = [];
+  let inFence = false;
+
+  for (const line of markdown.split('\n')) {
+    if (/^\s*```/.test(line)) {
+      inFence = !inFence;
+    }
+    if (!inFence && line.trim() === '') {
+      if (current.length > 0) {
+        blocks.push(current.join('\n'));
+        current = [];
+      }
+      continue;
+    }
+    current.push(line);
+  }
+  if (current.length > 0) {
+    blocks.push(current.join('\n'));
+  }
+
+  return blocks;
+}
+
+/**
+ * Split a rendered document into its `##` sections, dropping the title and source lines
+ * @returns Sections in document order; text before the first section has an empty heading
+ */
+export function splitSections(content: string): Array<{ heading: string; body: string }> {
+  // The title and source line are replaced by the packer's own document header
+  const body = content
+    .replace(/^#\s+.*\n+/, '')
+    .replace(/^\*\*Source:\*\*.*\n+/m, '');
+
+  return body.split(/^(?=##\s)/m).filter(section => section.trim().length > 0).map(section => {
+    const headingMatch = section.match(/^##\s+(.+)\n/);
+    return headingMatch
+      ? { heading: headingMatch[1].trim(), body: section.slice(headingMatch[0].length) }
+      : { heading: '', body: section };
+  });
+}
+
+/**
+ * Split a rendered document into chunks by `##` section, breaking long sections at paragraph boundaries
+ * @param content The document's Markdown
+ * @param documentIndex Index of the document in the input list
+ * @param maxChunkTokens Longest chunk before a section is split
+ * @returns Unscored chunks in document order
+ */
+export function chunkDocument(content: string, documentIndex: number, maxChunkTokens: number): ContextChunk[] {
+  const chunks: ContextChunk[] = [];
+
+  for (const { heading, body: sectionBody } of splitSections(content)) {
+    const headingLine = heading ? `## ${heading}` : '';
+
+    const pieces: string[] = [];
+    let piece: string[] = [];
+    let pieceTokens = 0;
+    for (let block of splitBlocks(sectionBody)) {
+      let blockTokens = estimateTokens(block);
+      if (blockTokens > maxChunkTokens) {
+        // A single oversized paragraph or code block is cut rather than dropped
+        block = `${block.slice(0, maxChunkTokens * 4)}…`;
+        blockTokens = maxChunkTokens;
+      }
+      if (piece.length > 0 && pieceTokens + blockTokens > maxChunkTokens) {
+        pieces.push(piece.join('\n\n'));
+        piece = [];
+        pieceTokens = 0;
+      }
+      piece.push(block);
+      pieceTokens += blockTokens;
+    }
+    if (piece.length > 0) {
+      pieces.push(piece.join('\n\n'));
+    }
+
+    pieces.forEach((text, index) => {
+      const title = headingLine && index > 0 ? `${headingLine} (continued)` : headingLine;
+      const chunkText = title ? `${title}\n\n${text}` : text;
+      chunks.push({
+        documentIndex,
+        position: chunks.length,
+        heading,
+        text: chunkText,
+        tokens: estimateTokens(chunkText),
+        score: 0
+      });
+    });
+  }
+
+  return chunks;
+}
+
+/**
+ * Score chunks against a question with BM25, weighted by section type and search rank
+ */
+export function scoreChunks(chunks: ContextChunk[], question: string): ContextChunk[] {
+  const terms = Array.from(new Set(tokenize(question)));
+  const termLists = chunks.map(chunk => tokenize(chunk.text));
+  const averageLength = termLists.reduce((sum, list) => sum + list.length, 0) / Math.max(1, termLists.length);
+
+  const documentFrequency = new Map<string, number>();
+  termLists.forEach(list => {
+    new Set(list).forEach(term => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1));
+  });
+
+  return chunks.map((chunk, index) => {
+    const list = termLists[index];
+    const frequencies = new Map<string, number>();
+    list.forEach(term => frequencies.set(term, (frequencies.get(term) || 0) + 1));
+
+    let relevance = 0;
+    for (const term of terms) {
+      const frequency = frequencies.get(term) || 0;
+      if (frequency === 0) {
+        continue;
+      }
+      const containing = documentFrequency.get(term) || 0;
+      const idf = Math.log(1 + (chunks.length - containing + 0.5) / (containing + 0.5));
+      const normalization = BM25_K1 * (1 - BM25_B + BM25_B * (list.length / (averageLength || 1)));
+      relevance += idf * (frequency * (BM25_K1 + 1)) / (frequency + normalization);
+    }
+
+    // A small baseline keeps section and rank priors meaningful when no term matches
+    const sectionWeight = SECTION_WEIGHTS[chunk.heading.toLowerCase()] ?? 1;
+    const rankWeight = 1 / (1 + chunk.documentIndex * 0.1);
+    return { ...chunk, score: (relevance + 0.1) * sectionWeight * rankWeight };
+  });
+}
+
+/**
+ * Build the header introducing a document in the packed context, numbered in input order for citations
+ */
+function documentHeader(document: ContextDocument, sourceNumber: number): string {
+  return `## [${sourceNumber}] ${document.title}\n**URL:** ${document.url}\n**Type:** ${document.type}`;
+}
+
+/**
+ * Select the chunks most relevant to a question within a token budget.
+ * Every document first gets its best chunk (so no source is crowded out), then the rest of the budget goes to the
+ * highest scoring chunks overall.
+ * @param documents Documents in search order
+ * @param question The question the context should answer
+ * @param config Budget settings
+ * @returns Selected chunks per document index, in document order, and the number of chunks left out
+ */
+export function selectChunks(
+  documents: ContextDocument[],
+  question: string,
+  config: Partial<ContextPackingConfig> = {}
+): { selected: Map<number, ContextChunk[]>; omitted: number } {
+  const { maxTokens, maxChunkTokens, firstSourceNumber } = { maxTokens: 4000, maxChunkTokens: 600, firstSourceNumber: 1, ...config };
+
+  const chunks = scoreChunks(
+    documents.flatMap((document, index) => chunkDocument(document.content, index, maxChunkTokens)),
+    question
+  );
+  const ranked = [...chunks].sort((a, b) => b.score - a.score);
+
+  const selected = new Map<number, ContextChunk[]>();
+  const taken = new Set<ContextChunk>();
+  let used = 0;
+
+  const take = (chunk: ContextChunk): void => {
+    const isNewDocument = !selected.has(chunk.documentIndex);
+    const cost = chunk.tokens + (isNewDocument ? estimateTokens(documentHeader(documents[chunk.documentIndex], firstSourceNumber + chunk.documentIndex)) : 0);
+    if (taken.has(chunk) || used + cost > maxTokens) {
+      return;
+    }
+    used += cost;
+    taken.add(chunk);
+    selected.set(chunk.documentIndex, [...(selected.get(chunk.documentIndex) || []), chunk]);
+  };
+
+  // Best chunk of each document, best documents first
+  const bestPerDocument = new Map<number, ContextChunk>();
+  ranked.forEach(chunk => {
+    if (!bestPerDocument.has(chunk.documentIndex)) {
+      bestPerDocument.set(chunk.documentIndex, chunk);
+    }
+  });
+  bestPerDocument.forEach(take);
+
+  // Then fill the budget by score
+  ranked.forEach(take);
+
+  selected.forEach(list => list.sort((a, b) => a.position - b.position));
+  return {
+    selected: new Map([...selected.entries()].sort((a, b) => a[0] - b[0])),
+    omitted: chunks.length - taken.size
+  };
+}
+
+/**
+ * Pack the parts of the documents that best answer a question into a token budget
+ * @param documents Documents in search order
+ * @param question The question the context should answer
+ * @param config Budget settings
+ * @returns Markdown with one section per document, headed by its source number and separated by `---`
+ */
+export function packContext(documents: ContextDocument[], question: string, config: Partial<ContextPackingConfig> = {}): string {
+  const { selected, omitted } = selectChunks(documents, question, config);
+  const firstSourceNumber = config.firstSourceNumber ?? 1;
+
+  const sections = [...selected.entries()].map(([index, chunks]) =>
+    [documentHeader(documents[index], firstSourceNumber + index), ...chunks.map(chunk => chunk.text)].join('\n\n')
+  );
+  let packed = sections.join('\n\n---\n\n');
+  if (omitted > 0) {
+    packed += `\n\n[${omitted} less relevant sections omitted to fit the context budget]`;
+  }
+  return packed;
+}
@@ -1,5 +1,9 @@
-import fetch from 'node-fetch';
-import { formatJsonDocumentation, formatJsonDocumentationCached } from './doc-parsers.js';
+import { RequestInit, Response } from 'node-fetch';
+import { fetchUpstream } from './upstream.js';
+import { APPLE_DEVELOPER_BASE_URL } from './config.js';
+import { formatJsonDocumentationCached, getCacheIntegration } from './doc-parsers.js';
+import { getDocLanguageFromUrl, withDocLanguage } from './doc-variants.js';
+import type { CacheLookup } from './cache/cache-integration.js';
 
 /**
  * Interface for Apple Documentation JSON reference
@@ -17,7 +21,7 @@ interface AppleDocReference {
  */
 interface AppleDocJSON {
   references?: Record<string, AppleDocReference>;
-  identifier?: string;
+  identifier?: { url?: string; interfaceLanguage?: string };
   title?: string;
   url?: string;
   abstract?: any[];
@@ -35,7 +39,7 @@ interface AppleDocJSON {
 /**
  * Convert a web URL to a JSON API URL
  */
-function convertToJsonApiUrl(webUrl: string): string {
+export function convertToJsonApiUrl(webUrl: string): string {
   // Remove trailing slash if present
   if (webUrl.endsWith('/')) {
     webUrl = webUrl.slice(0, -1);
@@ -49,7 +53,7 @@ function convertToJsonApiUrl(webUrl: string): string {
     // Remove /documentation/ prefix
     path = path.replace('/documentation/', '');
     // Convert to JSON API URL format
-    return `https://developer.apple.com/tutorials/data/documentation/${path}.json`;
+    return `${APPLE_DEVELOPER_BASE_URL}/tutorials/data/documentation/${path}.json`;
   }
 
   // If not a documentation URL, return the original
@@ -57,130 +61,217 @@ function convertToJsonApiUrl(webUrl: string): string {
 }
 
 /**
- * Cache-aware version of fetchAppleDocJson
- * @param url The URL of the documentation page
- * @param maxDepth Maximum recursion depth (to prevent infinite loops)
- * @param useCache Whether to use caching (default: true)
- * @returns Formatted documentation content with cache metadata
+ * HTTP statuses that redirect to the `Location` header
+ */
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+/**
+ * Whether a URL is on developer.apple.com itself; look-alike hosts (`developer.apple.com.example`) and other
+ * apple.com hosts are not
  */
-export async function fetchAppleDocJsonCached(url: string, maxDepth: number = 2, useCache: boolean = true): Promise<any> {
+function isDeveloperUrl(url: string): boolean {
   try {
-    // Validate that this is an Apple Developer URL
-    if (!url.includes('developer.apple.com')) {
-      throw new Error('URL must be from developer.apple.com');
-    }
+    return new URL(url).origin === new URL(APPLE_DEVELOPER_BASE_URL).origin;
+  } catch {
+    return false;
+  }
+}
 
-    // Convert web URL to JSON API URL if needed
-    const jsonApiUrl = url.includes('.json') ? url : convertToJsonApiUrl(url);
+/**
+ * Convert a JSON API URL (`/tutorials/data/documentation/...json`) back to its web page URL
+ */
+export function convertToPageUrl(jsonApiUrl: string): string {
+  const urlObj = new URL(jsonApiUrl);
+  const match = urlObj.pathname.match(/^\/tutorials\/data(\/.+?)(\.json)?$/);
+  return match ? `${APPLE_DEVELOPER_BASE_URL}${match[1]}${urlObj.search}` : jsonApiUrl;
+}
 
-    console.error(`Fetching Apple doc JSON from: ${jsonApiUrl}`);
+/**
+ * Fetch a documentation JSON URL, following HTTP redirects one hop at a time so the chain can be reported
+ * @param jsonApiUrl JSON API URL to fetch
+ * @param pageUrl Page URL that was requested
+ * @param headers Request headers
+ * @param maxRedirects Maximum number of redirects to follow
+ * @param signal Cancels the request
+ * @returns The final response and the page URLs visited, starting with the requested one
+ */
+async function fetchDocJsonFollowingRedirects(
+  jsonApiUrl: string,
+  pageUrl: string,
+  headers: Record<string, string>,
+  maxRedirects: number,
+  signal?: AbortSignal
+): Promise<{ response: Response; redirects: string[] }> {
+  const language = getDocLanguageFromUrl(pageUrl);
+  const redirects = [pageUrl];
+  let currentUrl = jsonApiUrl;
 
-    // Fetch the documentation JSON
-    const response = await fetch(jsonApiUrl, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-        'Accept': 'application/json',
-      },
-    });
+  for (let hop = 0; ; hop++) {
+    const response = await fetchUpstream(currentUrl, { headers, redirect: 'manual', signal: signal as RequestInit['signal'] });
+    const location = response.headers.get('location');
+    if (!REDIRECT_STATUSES.has(response.status) || !location) {
+      return { response, redirects };
+    }
+    if (hop >= maxRedirects) {
+      throw new Error(`Too many redirects: ${redirects.join(' → ')}`);
+    }
 
-    if (!response.ok) {
-      throw new Error(`Failed to fetch JSON content: ${response.status}`);
+    currentUrl = new URL(location, currentUrl).toString();
+    if (!isDeveloperUrl(currentUrl)) {
+      throw new Error(`Redirected outside developer.apple.com: ${currentUrl}`);
     }
+    redirects.push(withDocLanguage(convertToPageUrl(currentUrl), language));
+    console.error(`↪️ Redirected to ${currentUrl}`);
+  }
+}
+
+/**
+ * Normalize a URL path for comparison: percent-decoded (`init(points%3Acount%3A)` equals `init(points:count:)`),
+ * lowercased and without a trailing slash
+ */
+function normalizePathForComparison(path: string): string {
+  let decoded = path;
+  try {
+    decoded = decodeURIComponent(path);
+  } catch {
+    // Malformed escapes are compared as written
+  }
+  return decoded.toLowerCase().replace(/\/+$/, '');
+}
+
+/**
+ * Get the canonical page URL DocC assigned to a page served under another path (a moved or aliased page)
+ * @param jsonData The DocC JSON
+ * @param pageUrl The page URL it was fetched for
+ * @returns The canonical page URL, or undefined if the page lives at the requested path
+ */
+function getCanonicalPageUrl(jsonData: AppleDocJSON, pageUrl: string): string | undefined {
+  const identifierMatch = jsonData.identifier?.url?.match(/^doc:\/\/[^/]+(\/[^?#]*)/);
+  if (!identifierMatch) {
+    return undefined;
+  }
+
+  const canonicalPath = identifierMatch[1].toLowerCase();
+  const requested = new URL(pageUrl);
+  if (normalizePathForComparison(requested.pathname) === normalizePathForComparison(canonicalPath)) {
+    return undefined;
+  }
+  return `${APPLE_DEVELOPER_BASE_URL}${canonicalPath}${requested.search}`;
+}
+
+/**
+ * Fetch a documentation page's JSON (revalidating a stale cached copy) and format it
+ * @throws Error if the page cannot be fetched
+ */
+async function fetchAndFormatDocJson(
+  url: string,
+  jsonApiUrl: string,
+  cached: CacheLookup | undefined,
+  maxRedirects: number,
+  useCache: boolean,
+  signal?: AbortSignal
+): Promise<any> {
+  const cacheIntegration = useCache ? getCacheIntegration() : null;
+
+  const conditionalHeaders: Record<string, string> = {};
+  if (cached?.document.etag) {
+    conditionalHeaders['If-None-Match'] = cached.document.etag;
+  }
+  if (cached?.document.lastModified) {
+    conditionalHeaders['If-Modified-Since'] = cached.document.lastModified;
+  }
+
+  console.error(`Fetching Apple doc JSON from: ${jsonApiUrl}`);
 
-    // Parse the JSON response
-    const jsonData = await response.json() as AppleDocJSON;
-
-    // If the JSON doesn't have primary content but has references to other docs,
-    // fetch the first reference if we haven't exceeded max depth
-    if (!jsonData.primaryContentSections &&
-      jsonData.references &&
-      Object.keys(jsonData.references).length > 0 &&
-      maxDepth > 0) {
-
-      // Find the main reference to follow (usually first in the list)
-      const mainReferenceKey = Object.keys(jsonData.references)[0];
-      const mainReference = jsonData.references[mainReferenceKey];
-
-      if (mainReference && mainReference.url) {
-        // Recursively fetch the referenced documentation
-        const refUrl = `https://developer.apple.com/tutorials/data/documentation/${mainReference.url}.json`;
-        return await fetchAppleDocJsonCached(refUrl, maxDepth - 1, useCache);
-      }
+  // Fetch the documentation JSON
+  const pageUrl = url.includes('.json') ? convertToPageUrl(url) : url;
+  const { response, redirects } = await fetchDocJsonFollowingRedirects(jsonApiUrl, pageUrl, {
+    'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
+    'Accept': 'application/json',
+    ...conditionalHeaders,
+  }, maxRedirects, signal);
+
+  const validators = {
+    etag: response.headers.get('etag') || undefined,
+    lastModified: response.headers.get('last-modified') || undefined,
+  };
+
+  if (response.status === 304 && cacheIntegration) {
+    const revalidated = cacheIntegration.serveRevalidated(url, validators);
+    if (revalidated) {
+      return revalidated.content;
     }
+    throw new Error('Upstream reported the page as unmodified but it is no longer cached');
+  }
 
-    // Format and return the JSON documentation with caching
-    const cached = await formatJsonDocumentationCached(jsonData, url, { skipCache: !useCache });
-    return cached.content;
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    console.error('Error fetching Apple doc JSON:', errorMessage);
+  if (response.status === 404) {
+    cacheIntegration?.recordNotFound(url);
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to fetch JSON content: ${response.status}`);
+  }
 
-    return {
-      content: [
-        {
-          type: "text" as const,
-          text: `Error: Failed to get Apple doc content: ${errorMessage}\n\nPlease try accessing the documentation directly at: ${url}`,
-        }
-      ],
-      isError: true
-    };
+  // Parse the JSON response
+  const jsonData = await response.json() as AppleDocJSON;
+
+  // Pages without primary content (framework landing pages, API collections) are rendered
+  // from their own overview and topics. A page DocC serves under another canonical path
+  // has already been resolved by the server; record that hop too.
+  const canonicalUrl = getCanonicalPageUrl(jsonData, redirects[redirects.length - 1]);
+  if (canonicalUrl) {
+    redirects.push(canonicalUrl);
   }
+
+  // Format and return the JSON documentation with caching
+  const formatted = await formatJsonDocumentationCached(jsonData, url, {
+    skipCache: !useCache,
+    source: { rawJson: jsonData, ...validators },
+    redirects
+  });
+  return formatted.content;
 }
 
 /**
- * Fetch JSON documentation from Apple Developer Documentation
+ * Cache-aware version of fetchAppleDocJson.
+ * Landing and collection pages are rendered as they are; redirects are only followed when the server issues one,
+ * and the chain is reported in the output. Concurrent requests for the same page share one fetch, and pages that
+ * returned 404 are reported as missing for a short while without refetching.
  * @param url The URL of the documentation page
- * @param maxDepth Maximum recursion depth (to prevent infinite loops)
- * @returns Formatted documentation content
+ * @param maxRedirects Maximum number of redirects to follow
+ * @param useCache Whether to use caching (default: true)
+ * @param signal Cancels the fetch
+ * @returns Formatted documentation content with cache metadata
  */
-export async function fetchAppleDocJson(url: string, maxDepth: number = 2): Promise<any> {
+export async function fetchAppleDocJsonCached(url: string, maxRedirects: number = 5, useCache: boolean = true, signal?: AbortSignal): Promise<any> {
   try {
     // Validate that this is an Apple Developer URL
-    if (!url.includes('developer.apple.com')) {
+    if (!isDeveloperUrl(url)) {
       throw new Error('URL must be from developer.apple.com');
     }
 
     // Convert web URL to JSON API URL if needed
     const jsonApiUrl = url.includes('.json') ? url : convertToJsonApiUrl(url);
 
-    console.error(`Fetching Apple doc JSON from: ${jsonApiUrl}`);
-
-    // Fetch the documentation JSON
-    const response = await fetch(jsonApiUrl, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-        'Accept': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch JSON content: ${response.status}`);
+    // Serve fresh cache entries without a request; revalidate stale ones conditionally
+    const cacheIntegration = useCache ? getCacheIntegration() : null;
+    if (!cacheIntegration) {
+      return await fetchAndFormatDocJson(url, jsonApiUrl, undefined, maxRedirects, useCache, signal);
     }
 
-    // Parse the JSON response
-    const jsonData = await response.json() as AppleDocJSON;
-
-    // If the JSON doesn't have primary content but has references to other docs,
-    // fetch the first reference if we haven't exceeded max depth
-    if (!jsonData.primaryContentSections &&
-      jsonData.references &&
-      Object.keys(jsonData.references).length > 0 &&
-      maxDepth > 0) {
-
-      // Find the main reference to follow (usually first in the list)
-      const mainReferenceKey = Object.keys(jsonData.references)[0];
-      const mainReference = jsonData.references[mainReferenceKey];
-
-      if (mainReference && mainReference.url) {
-        // Recursively fetch the referenced documentation
-        const refUrl = `https://developer.apple.com/tutorials/data/documentation/${mainReference.url}.json`;
-        return await fetchAppleDocJson(refUrl, maxDepth - 1);
-      }
+    const cached = cacheIntegration.lookup(url);
+    if (cached?.fresh) {
+      console.error(`📋 Cache hit for ${url}`);
+      return cacheIntegration.createCacheHit(cached.document).content;
+    }
+    if (cacheIntegration.isKnownNotFound(url)) {
+      throw new Error('Failed to fetch JSON content: 404 (cached)');
     }
 
-    // Format and return the JSON documentation (now using cached version for consistency)
-    const cached = await formatJsonDocumentationCached(jsonData, url);
-    return cached.content;
+    return await cacheIntegration.coalesce(
+      url,
+      sharedSignal => fetchAndFormatDocJson(url, jsonApiUrl, cached, maxRedirects, useCache, sharedSignal),
+      signal
+    );
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     console.error('Error fetching Apple doc JSON:', errorMessage);
@@ -196,3 +287,14 @@ export async function fetchAppleDocJson(url: string, maxDepth: number = 2): Prom
     };
   }
 }
+
+/**
+ * Fetch JSON documentation from Apple Developer Documentation, always going upstream instead of serving cached copies
+ * @param url The URL of the documentation page
+ * @param maxRedirects Maximum number of redirects to follow
+ * @param signal Cancels the fetch
+ * @returns Formatted documentation content
+ */
+export async function fetchAppleDocJson(url: string, maxRedirects: number = 5, signal?: AbortSignal): Promise<any> {
+  return fetchAppleDocJsonCached(url, maxRedirects, false, signal);
+}
@@ -1,5 +1,7 @@
 import * as cheerio from 'cheerio';
-import { CacheIntegration, CacheIntegrationResult } from './cache/cache-integration.js';
+import { CacheIntegration, CacheIntegrationResult, CacheSourceInfo } from './cache/cache-integration.js';
+import { APPLE_DEVELOPER_BASE_URL, APPLE_DOCS_ASSETS_BASE_URL } from './config.js';
+import { DocLanguage, applyLanguageVariant, getDocLanguageFromUrl } from './doc-variants.js';
 
 // Global cache integration instance (will be set by the main server)
 let cacheIntegration: CacheIntegration | null = null;
@@ -19,7 +21,7 @@ interface ResourceLink {
 /**
  * Content block type that can include text or resource links
  */
-interface ContentBlock {
+export interface ContentBlock {
   type: "text" | "resource_link";
   text?: string;
   uri?: string;
@@ -29,6 +31,71 @@ interface ContentBlock {
   mimeType?: string;
 }
 
+/**
+ * A member of a titled topic group
+ */
+export interface TopicItem {
+  title: string;
+  url: string;
+  kind?: string;
+  abstract?: string;
+  deprecated?: boolean;
+}
+
+/**
+ * A titled group of related pages (topics, relationships, see also)
+ */
+export interface TopicGroup {
+  title: string;
+  items: TopicItem[];
+}
+
+/**
+ * Availability of a documented API on one platform
+ */
+export interface PlatformAvailability {
+  platform: string;
+  introducedAt?: string;
+  deprecatedAt?: string;
+  obsoletedAt?: string;
+  beta: boolean;
+  deprecated: boolean;
+  unavailable: boolean;
+  renamed?: string;
+  message?: string;
+}
+
+/**
+ * Structured view of a documentation page for programmatic clients
+ */
+export type AppleDocStructure = {
+  url: string;
+  title: string;
+  kind?: string;
+  language: DocLanguage;
+  abstract?: string;
+  declaration?: string;
+  parameters: Array<{ name: string; description: string }>;
+  returnValue?: string;
+  availability: PlatformAvailability[];
+  deprecated: boolean;
+  deprecationSummary?: string;
+  topics: TopicGroup[];
+  relationships: TopicGroup[];
+  seeAlso: TopicGroup[];
+  sampleCodeUrl?: string;
+  /** Page URLs that redirected here, in the order they were visited */
+  redirectedFrom?: string[];
+};
+
+/**
+ * Display names for documentation languages
+ */
+const LANGUAGE_NAMES: Record<DocLanguage, string> = {
+  swift: 'Swift',
+  objc: 'Objective-C',
+};
+
 /**
  * Set the global cache integration instance
  */
@@ -36,23 +103,30 @@ export function setCacheIntegration(integration: CacheIntegration): void {
   cacheIntegration = integration;
 }
 
+/**
+ * Get the global cache integration instance, if one has been set
+ */
+export function getCacheIntegration(): CacheIntegration | null {
+  return cacheIntegration;
+}
+
 /**
  * Create a resource link from Apple documentation reference
  */
-function createResourceLink(reference: any, identifier: string): ResourceLink {
+function createResourceLink(reference: any, identifier: string, references: any = {}): ResourceLink {
   let uri = '';
   
   if (reference?.url) {
-    uri = reference.url.startsWith('http') ? reference.url : `https://developer.apple.com${reference.url}`;
+    uri = reference.url.startsWith('http') ? reference.url : `${APPLE_DEVELOPER_BASE_URL}${reference.url}`;
   } else if (identifier.startsWith('http')) {
     uri = identifier;
   } else {
     // Fallback to identifier-based URL
-    uri = `https://developer.apple.com/documentation/${identifier.replace(/^doc:\/\//, '').replace(/\./g, '/')}`;
+    uri = `${APPLE_DEVELOPER_BASE_URL}/documentation/${identifier.replace(/^doc:\/\//, '').replace(/\./g, '/')}`;
   }
 
   const name = reference?.title || extractTitleFromUrl(uri) || identifier.split('/').pop() || identifier;
-  const description = reference?.abstract ? processInlineContent(reference.abstract) : undefined;
+  const description = reference?.abstract ? processInlineContent(reference.abstract, references) : undefined;
 
   return {
     type: "resource_link",
@@ -72,7 +146,7 @@ function createSampleCodeResourceLink(sampleCodeData: any): ResourceLink | null
   }
 
   const sampleId = sampleCodeData.action.identifier;
-  const sampleUrl = `https://docs-assets.developer.apple.com/published/${sampleId}`;
+  const sampleUrl = `${APPLE_DOCS_ASSETS_BASE_URL}/published/${sampleId}`;
   const name = sampleCodeData.title || 'Sample Code';
 
   return {
@@ -94,14 +168,14 @@ function createTopicResourceLinks(identifiers: string[], references: any = {}):
 
   return identifiers.map(identifier => {
     const reference = references[identifier];
-    return createResourceLink(reference, identifier);
+    return createResourceLink(reference, identifier, references);
   }).filter(Boolean);
 }
 
 /**
  * Create resource links from HTML topic elements
  */
-function createHtmlTopicResourceLinks($: cheerio.CheerioAPI, topicElements: cheerio.Cheerio): ResourceLink[] {
+function createHtmlTopicResourceLinks($: cheerio.CheerioAPI, topicElements: cheerio.Cheerio<any>): ResourceLink[] {
   const resourceLinks: ResourceLink[] = [];
 
   topicElements.each((_j: number, topicItem: any) => {
@@ -111,7 +185,7 @@ function createHtmlTopicResourceLinks($: cheerio.CheerioAPI, topicElements: chee
 
     if (topicText && topicUrl) {
       const fullUrl = topicUrl.startsWith('http') ?
-        topicUrl : `https://developer.apple.com${topicUrl}`;
+        topicUrl : `${APPLE_DEVELOPER_BASE_URL}${topicUrl}`;
       
       resourceLinks.push({
         type: "resource_link",
@@ -129,26 +203,19 @@ function createHtmlTopicResourceLinks($: cheerio.CheerioAPI, topicElements: chee
 /**
  * Cache-aware wrapper for formatJsonDocumentation
  */
-export async function formatJsonDocumentationCached(jsonData: any, url: string, options?: { skipCache?: boolean }): Promise<CacheIntegrationResult> {
+export async function formatJsonDocumentationCached(
+  jsonData: any,
+  url: string,
+  options?: { skipCache?: boolean; source?: CacheSourceInfo; redirects?: string[] }
+): Promise<CacheIntegrationResult> {
+  const redirects = options?.redirects || [];
   if (cacheIntegration) {
-    return cacheIntegration.cacheAwareFormat(url, () => {
-      const result = formatJsonDocumentation(jsonData, url);
-      // Convert ContentBlock array to single text block for caching
-      const textBlocks = result.content.filter(block => block.type === 'text').map(block => block.text || '');
-      const combinedText = textBlocks.join('\n\n');
-      
-      return {
-        content: [{
-          type: "text" as const,
-          text: combinedText,
-        }],
-      };
-    }, options);
+    return cacheIntegration.cacheAwareFormat(url, () => formatJsonDocumentation(jsonData, url, redirects), options);
   }
 
   // Fallback to non-cached version - return full ContentBlock array
   return {
-    content: formatJsonDocumentation(jsonData, url),
+    content: formatJsonDocumentation(jsonData, url, redirects),
     fromCache: false,
     cacheKey: ''
   };
@@ -159,19 +226,7 @@ export async function formatJsonDocumentationCached(jsonData: any, url: string,
  */
 export async function formatHtmlDocumentationCached(html: string, url: string, options?: { skipCache?: boolean }): Promise<CacheIntegrationResult> {
   if (cacheIntegration) {
-    return cacheIntegration.cacheAwareFormat(url, () => {
-      const result = formatHtmlDocumentation(html, url);
-      // Convert ContentBlock array to single text block for caching
-      const textBlocks = result.content.filter(block => block.type === 'text').map(block => block.text || '');
-      const combinedText = textBlocks.join('\n\n');
-      
-      return {
-        content: [{
-          type: "text" as const,
-          text: combinedText,
-        }],
-      };
-    }, options);
+    return cacheIntegration.cacheAwareFormat(url, () => formatHtmlDocumentation(html, url), options);
   }
 
   // Fallback to non-cached version - return full ContentBlock array
@@ -182,11 +237,110 @@ export async function formatHtmlDocumentationCached(html: string, url: string, o
   };
 }
 
+/**
+ * Get the declaration source text of a page, one line per declaration
+ */
+function getDeclarationText(jsonData: any): string | undefined {
+  const declarationSection = (jsonData.primaryContentSections || []).find(
+    (section: any) => section.kind === 'declarations'
+  );
+  if (!declarationSection || !declarationSection.declarations) {
+    return undefined;
+  }
+
+  return declarationSection.declarations
+    .filter((declaration: any) => declaration.tokens)
+    .map((declaration: any) => declaration.tokens.map((token: any) => token.text || '').join(''))
+    .join('\n');
+}
+
+/**
+ * Convert topic sections to structured topic groups
+ */
+function toTopicGroups(sections: any[], references: any = {}): TopicGroup[] {
+  return (sections || [])
+    .filter(section => section.identifiers && section.identifiers.length > 0)
+    .map(section => ({
+      title: section.title || '',
+      items: section.identifiers.map((identifier: string): TopicItem => {
+        const reference = references && references[identifier];
+        if (!reference) {
+          const url = identifier.startsWith('http') ? identifier : createResourceLink(undefined, identifier).uri;
+          return { title: identifier.startsWith('http') ? extractTitleFromUrl(identifier) : identifier.split('/').pop() || identifier, url };
+        }
+        return {
+          title: reference.title || identifier.split('/').pop() || identifier,
+          url: reference.url ? toAbsoluteUrl(reference.url) : createResourceLink(reference, identifier).uri,
+          kind: describeReferenceKind(reference),
+          abstract: reference.abstract ? processInlineContent(reference.abstract, references) : undefined,
+          deprecated: reference.deprecated || undefined,
+        };
+      })
+    }));
+}
+
+/**
+ * Extract a structured view of a (language-resolved) DocC page
+ */
+function extractDocumentStructure(jsonData: any, url: string, language: DocLanguage): AppleDocStructure {
+  const references = jsonData.references;
+  const sections: any[] = jsonData.primaryContentSections || [];
+  const platforms: any[] = jsonData.metadata?.platforms || [];
+
+  const parametersSection = sections.find(section => section.kind === 'parameters');
+  const returnSection = sections.find(section => section.kind === 'returnValue');
+  const sampleCodeLink = jsonData.sampleCodeDownload ? createSampleCodeResourceLink(jsonData.sampleCodeDownload) : null;
+
+  return {
+    url,
+    title: jsonData.title || jsonData.metadata?.title || 'Untitled Documentation',
+    kind: jsonData.metadata?.roleHeading || jsonData.metadata?.symbolKind || jsonData.metadata?.role,
+    language,
+    abstract: jsonData.abstract ? processInlineContent(jsonData.abstract, references) : undefined,
+    declaration: getDeclarationText(jsonData),
+    parameters: (parametersSection?.parameters || []).map((param: any) => ({
+      name: param.name,
+      description: processContentItems(param.content, references).trim()
+    })),
+    returnValue: returnSection?.content ? processContentItems(returnSection.content, references).trim() : undefined,
+    availability: platforms.map(platform => ({
+      platform: platform.name,
+      introducedAt: platform.introducedAt,
+      deprecatedAt: platform.deprecatedAt,
+      obsoletedAt: platform.obsoletedAt,
+      beta: Boolean(platform.beta),
+      deprecated: isPlatformDeprecated(platform),
+      unavailable: Boolean(platform.unavailable),
+      renamed: platform.renamed,
+      message: platform.message
+    })),
+    deprecated: Boolean(jsonData.deprecationSummary) || platforms.some(isPlatformDeprecated),
+    deprecationSummary: jsonData.deprecationSummary
+      ? processContentItems(jsonData.deprecationSummary, references).trim()
+      : undefined,
+    topics: toTopicGroups(jsonData.topicSections, references),
+    relationships: toTopicGroups(jsonData.relationshipsSections, references),
+    seeAlso: toTopicGroups(jsonData.seeAlsoSections, references),
+    sampleCodeUrl: sampleCodeLink?.uri
+  };
+}
+
 /**
  * Format JSON documentation from Apple Developer Documentation
+ * @param sourceJson The DocC JSON of the page
+ * @param url The requested page URL
+ * @param redirects Redirect chain from the requested URL to the page that was served, if any
  */
-export function formatJsonDocumentation(jsonData: any, url: string) {
+export function formatJsonDocumentation(sourceJson: any, url: string, redirects: string[] = []) {
+  // Report the page that was actually served and where it was reached from
+  const redirectedFrom = redirects.slice(0, -1);
+  url = redirects.length > 1 ? redirects[redirects.length - 1] : url;
+
   try {
+    // Apply the Objective-C variant when the URL asks for it (`?language=objc`)
+    const requestedLanguage = getDocLanguageFromUrl(url);
+    const { jsonData, language } = applyLanguageVariant(sourceJson, requestedLanguage);
+
     // Extract the key information from the JSON structure
     const title = jsonData.title || jsonData.metadata?.title || 'Untitled Documentation';
 
@@ -197,9 +351,20 @@ export function formatJsonDocumentation(jsonData: any, url: string) {
     let markdownContent = `# ${title}\n\n`;
     markdownContent += `**Source:** [${url}](${url})\n\n`;
 
+    if (language !== requestedLanguage) {
+      markdownContent += `> **Note**: This page has no ${LANGUAGE_NAMES[requestedLanguage]} variant; showing ${LANGUAGE_NAMES[language]}.\n\n`;
+    }
+
+    if (redirectedFrom.length > 0) {
+      markdownContent += `> **Note**: Redirected from ${[...redirectedFrom, url].join(' → ')}.\n\n`;
+    }
+
+    // Warn about deprecated and beta APIs before anything else
+    markdownContent += renderStatusBanner(jsonData);
+
     // Add abstract/introduction if available
     if (jsonData.abstract && jsonData.abstract.length > 0) {
-      const abstractText = processInlineContent(jsonData.abstract);
+      const abstractText = processInlineContent(jsonData.abstract, jsonData.references);
       markdownContent += `## Overview\n\n${abstractText}\n\n`;
     }
 
@@ -210,15 +375,8 @@ export function formatJsonDocumentation(jsonData: any, url: string) {
       );
 
       if (declarationSection && declarationSection.declarations) {
-        markdownContent += `## Declaration\n\n\`\`\`swift\n`;
-        declarationSection.declarations.forEach((declaration: any) => {
-          if (declaration.tokens) {
-            const declarationText = declaration.tokens
-              .map((token: any) => token.text || '')
-              .join('');
-            markdownContent += `${declarationText}\n`;
-          }
-        });
+        markdownContent += `## Declaration\n\n\`\`\`${language === 'objc' ? 'objective-c' : 'swift'}\n`;
+        markdownContent += `${getDeclarationText(jsonData)}\n`;
         markdownContent += `\`\`\`\n\n`;
       }
 
@@ -262,12 +420,16 @@ export function formatJsonDocumentation(jsonData: any, url: string) {
     if (jsonData.metadata && jsonData.metadata.platforms) {
       markdownContent += `## Availability\n\n`;
       jsonData.metadata.platforms.forEach((platform: any) => {
-        const betaStatus = platform.beta ? ' (Beta)' : '';
-        markdownContent += `- **${platform.name}${betaStatus}**: Introduced in ${platform.introducedAt}\n`;
+        markdownContent += renderPlatformAvailability(platform, jsonData.references);
       });
       markdownContent += `\n`;
     }
 
+    // Add titled topic, relationship and see also groups so members keep their context
+    markdownContent += renderTopicGroups('Topics', jsonData.topicSections, jsonData.references);
+    markdownContent += renderTopicGroups('Relationships', jsonData.relationshipsSections, jsonData.references);
+    markdownContent += renderTopicGroups('See Also', jsonData.seeAlsoSections, jsonData.references);
+
     // Add the main documentation content
     contentBlocks.push({
       type: "text",
@@ -318,7 +480,7 @@ export function formatJsonDocumentation(jsonData: any, url: string) {
               });
             } else {
               const reference = jsonData.references && jsonData.references[identifier];
-              const resourceLink = createResourceLink(reference, identifier);
+              const resourceLink = createResourceLink(reference, identifier, jsonData.references);
               contentBlocks.push(resourceLink);
             }
           });
@@ -328,10 +490,25 @@ export function formatJsonDocumentation(jsonData: any, url: string) {
 
     return {
       content: contentBlocks,
+      structuredContent: {
+        ...extractDocumentStructure(jsonData, url, language),
+        ...(redirectedFrom.length > 0 ? { redirectedFrom } : {})
+      },
     };
   } catch (error) {
     console.error('Error formatting JSON documentation:', error);
     // Return a simplified version if parsing fails
+    const structuredContent: AppleDocStructure = {
+      url,
+      title: sourceJson?.metadata?.title || 'Untitled Documentation',
+      language: getDocLanguageFromUrl(url),
+      parameters: [],
+      availability: [],
+      deprecated: false,
+      topics: [],
+      relationships: [],
+      seeAlso: []
+    };
     return {
       content: [
         {
@@ -339,30 +516,549 @@ export function formatJsonDocumentation(jsonData: any, url: string) {
           text: `# Documentation: ${url}\n\nUnable to parse the full documentation content. Please visit the original documentation page for complete information.`,
         },
       ],
+      structuredContent,
     };
   }
 }
 
 /**
- * Process inline content from Apple Documentation JSON
+ * Check whether a platform entry marks the API as deprecated
+ */
+function isPlatformDeprecated(platform: any): boolean {
+  return Boolean(platform.deprecated || platform.deprecatedAt || platform.obsoletedAt);
+}
+
+/**
+ * Render a suggested replacement name, linked when it matches a page reference
+ */
+function renderReplacement(renamed: string, references: any = {}): string {
+  const lastComponent = renamed.split('.').pop() || renamed;
+  const match = Object.entries(references || {}).find(([, reference]: [string, any]) =>
+    reference?.type === 'topic' && reference.url && (reference.title === renamed || reference.title === lastComponent)
+  );
+
+  if (match) {
+    const [, reference] = match as [string, any];
+    return `[${renderCodeSpan(renamed)}](${toAbsoluteUrl(reference.url)})`;
+  }
+  return renderCodeSpan(renamed);
+}
+
+/**
+ * Render one platform's availability range, including deprecation, obsoletion and renames
+ */
+function renderPlatformAvailability(platform: any, references: any = {}): string {
+  const betaStatus = platform.beta ? ' (Beta)' : '';
+  const details: string[] = [];
+
+  if (platform.unavailable) {
+    details.push('Unavailable');
+  } else {
+    if (platform.introducedAt) {
+      details.push(`Introduced in ${platform.introducedAt}`);
+    }
+    if (platform.deprecatedAt) {
+      details.push(`deprecated in ${platform.deprecatedAt}`);
+    } else if (platform.deprecated) {
+      details.push('deprecated');
+    }
+    if (platform.obsoletedAt) {
+      details.push(`obsoleted in ${platform.obsoletedAt}`);
+    }
+  }
+
+  let line = `- **${platform.name}${betaStatus}**: ${details.join(', ') || 'Available'}`;
+  if (platform.renamed) {
+    line += `. Use ${renderReplacement(platform.renamed, references)} instead`;
+  }
+  if (platform.message) {
+    line += `. ${platform.message}`;
+  }
+
+  return `${line}\n`;
+}
+
+/**
+ * Render the deprecation and beta banner shown at the top of a page
+ */
+function renderStatusBanner(jsonData: any): string {
+  const platforms: any[] = jsonData.metadata?.platforms || [];
+  const references = jsonData.references;
+  let result = '';
+
+  const deprecatedPlatforms = platforms.filter(isPlatformDeprecated);
+  if (jsonData.deprecationSummary || deprecatedPlatforms.length > 0) {
+    let banner = '> ⚠️ **DEPRECATED**';
+    if (deprecatedPlatforms.length > 0) {
+      const where = deprecatedPlatforms
+        .map(platform => platform.deprecatedAt ? `${platform.name} ${platform.deprecatedAt}` : platform.name)
+        .join(', ');
+      banner += ` in ${where}`;
+    }
+
+    const summary = jsonData.deprecationSummary
+      ? processContentItems(jsonData.deprecationSummary, references).trim().replace(/\n/g, '\n> ')
+      : '';
+    if (summary) {
+      banner += `: ${summary}`;
+    }
+
+    // Suggest replacements the summary doesn't already mention
+    const replacements = [...new Set(deprecatedPlatforms.map(platform => platform.renamed).filter(Boolean))]
+      .filter(renamed => !summary.includes(renamed)) as string[];
+    if (replacements.length > 0) {
+      banner += `\n>\n> Use ${replacements.map(renamed => renderReplacement(renamed, references)).join(' or ')} instead.`;
+    }
+
+    result += `${banner}\n\n`;
+  }
+
+  const betaPlatforms = platforms.filter(platform => platform.beta);
+  if (betaPlatforms.length > 0) {
+    const names = betaPlatforms.map(platform => platform.name).join(', ');
+    result += `> 🧪 **BETA**: This API is in beta on ${names} and may change before release.\n\n`;
+  }
+
+  return result;
+}
+
+/**
+ * Convert a DocC URL or path to an absolute developer.apple.com URL
+ */
+function toAbsoluteUrl(url: string): string {
+  if (url.startsWith('http')) {
+    return url;
+  }
+  return `${APPLE_DEVELOPER_BASE_URL}${url.startsWith('/') ? '' : '/'}${url}`;
+}
+
+/**
+ * Wrap text in a Markdown marker, keeping surrounding whitespace outside the marker
+ */
+function wrapInline(text: string, open: string, close: string = open): string {
+  const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/);
+  if (!match || !match[2]) {
+    return text;
+  }
+  return `${match[1]}${open}${match[2]}${close}${match[3]}`;
+}
+
+/**
+ * Render code as a Markdown code span, using a longer fence when the code contains backticks
+ */
+function renderCodeSpan(code: string): string {
+  const longestRun = Math.max(0, ...(code.match(/`+/g) || []).map(run => run.length));
+  const fence = '`'.repeat(longestRun + 1);
+  const padding = code.startsWith('`') || code.endsWith('`') ? ' ' : '';
+  return `${fence}${padding}${code}${padding}${fence}`;
+}
+
+/**
+ * Render an image reference as Markdown
+ */
+function renderImage(identifier: string, references: any = {}): string {
+  const image = references && references[identifier];
+  if (!image || !image.variants || image.variants.length === 0) {
+    return '';
+  }
+  const imageUrl = toAbsoluteUrl(image.variants[0].url);
+  const altText = image.alt || 'Image';
+  return `![${altText}](${imageUrl})`;
+}
+
+/**
+ * Render a reference inline node as a Markdown link resolved against the page references
  */
-function processInlineContent(items: any[]): string {
+function renderInlineReference(item: any, references: any = {}): string {
+  const reference = references && references[item.identifier];
+
+  if (reference?.type === 'image') {
+    return renderImage(item.identifier, references);
+  }
+
+  const fallbackTitle = String(item.identifier).split('/').pop() || item.identifier;
+  let title: string;
+  if (item.overridingTitleInlineContent) {
+    title = processInlineContent(item.overridingTitleInlineContent, references);
+  } else if (item.overridingTitle) {
+    title = item.overridingTitle;
+  } else if (reference?.titleInlineContent) {
+    title = processInlineContent(reference.titleInlineContent, references);
+  } else {
+    title = reference?.title || fallbackTitle;
+  }
+
+  // Symbols render in code voice, like on the website; framework collections stay plain
+  const isSymbol = (reference?.kind === 'symbol' && reference?.role !== 'collection') || !reference;
+  const label = isSymbol && !item.overridingTitle && !item.overridingTitleInlineContent
+    ? renderCodeSpan(title)
+    : title;
+
+  if (!reference?.url || item.isActive === false) {
+    return label;
+  }
+
+  return `[${label}](${toAbsoluteUrl(reference.url)})`;
+}
+
+/**
+ * Render DocC inline content from Apple Documentation JSON as Markdown
+ */
+function processInlineContent(items: any[], references: any = {}): string {
   if (!items || !Array.isArray(items)) return '';
   
   return items.map((item: any) => {
-    if (item.text) return item.text;
-    if (item.inlineContent) {
-      return processInlineContent(item.inlineContent);
+    const inner = () => processInlineContent(item.inlineContent, references);
+
+    switch (item.type) {
+      case 'text':
+        return item.text || '';
+      case 'codeVoice':
+        return renderCodeSpan(item.code || '');
+      case 'emphasis':
+      case 'newTerm':
+        return wrapInline(inner(), '*');
+      case 'strong':
+      case 'inlineHead':
+        return wrapInline(inner(), '**');
+      case 'strikethrough':
+        return wrapInline(inner(), '~~');
+      case 'superscript':
+        return `<sup>${inner()}</sup>`;
+      case 'subscript':
+        return `<sub>${inner()}</sub>`;
+      case 'link': {
+        const destination = item.destination || '';
+        const title = item.titleInlineContent
+          ? processInlineContent(item.titleInlineContent, references)
+          : item.title || destination;
+        return destination ? `[${title}](${toAbsoluteUrl(destination)})` : title;
+      }
+      case 'image':
+        return renderImage(item.identifier, references);
+      case 'reference':
+        return item.identifier ? renderInlineReference(item, references) : '';
+      default:
+        if (item.text) return item.text;
+        if (item.code) return renderCodeSpan(item.code);
+        if (item.inlineContent) return inner();
+        return '';
     }
-    if (item.type === 'reference' && item.identifier) {
-      return `\`${item.identifier.split('/').pop()}\``;
+  }).join('');
+}
+
+/**
+ * Join DocC code, which may be an array of lines or a single string
+ */
+function joinCode(code: any): string {
+  if (Array.isArray(code)) {
+    return code.join('\n');
+  }
+  return code || '';
+}
+
+/**
+ * Render a fenced code block
+ */
+function renderCodeBlock(code: any, syntax?: string, fileLocation?: string): string {
+  let result = `\`\`\`${syntax || ''}\n`;
+  if (fileLocation) {
+    result += `// ${fileLocation}\n`;
+  }
+  const text = joinCode(code);
+  if (text) {
+    result += `${text}\n`;
+  }
+  return result + '```\n\n';
+}
+
+/**
+ * Render a list of block content items as a single line (for table cells and list items)
+ */
+function renderBlocksInline(content: any[], references: any = {}): string {
+  return processContentItems(content, references)
+    .trim()
+    .replace(/\n{2,}/g, '<br>')
+    .replace(/\n/g, ' ');
+}
+
+/**
+ * Render block content as a list item body, indenting continuation lines under the marker
+ */
+function renderListItem(content: any[], references: any = {}, indent: number = 2): string {
+  return processContentItems(content, references)
+    .trim()
+    .replace(/\n(?=.)/g, `\n${' '.repeat(indent)}`);
+}
+
+/**
+ * Render a DocC table as a Markdown table
+ */
+function renderTable(item: any, references: any = {}): string {
+  const rows: any[][] = item.rows || [];
+  if (rows.length === 0) {
+    return '';
+  }
+
+  const columnCount = Math.max(...rows.map(row => row.length));
+  const headerStyle = item.header || 'none';
+  const boldFirstColumn = headerStyle === 'column' || headerStyle === 'both';
+
+  const renderRow = (row: any[]) => {
+    const cells = Array.from({ length: columnCount }, (_, index) => {
+      const cell = renderBlocksInline(row[index] || [], references).replace(/\|/g, '\\|');
+      return boldFirstColumn && index === 0 && cell ? `**${cell}**` : cell;
+    });
+    return `| ${cells.join(' | ')} |\n`;
+  };
+
+  // Markdown tables always need a header row; use an empty one when DocC has none
+  const hasHeaderRow = headerStyle === 'row' || headerStyle === 'both';
+  const headerRow = hasHeaderRow ? renderRow(rows[0]) : `|${' |'.repeat(columnCount)}\n`;
+  const bodyRows = hasHeaderRow ? rows.slice(1) : rows;
+
+  const alignments: string[] = item.alignments || [];
+  const separator = Array.from({ length: columnCount }, (_, index) => {
+    switch (alignments[index]) {
+      case 'left': return ':---';
+      case 'center': return ':---:';
+      case 'right': return '---:';
+      default: return '---';
+    }
+  });
+
+  let result = headerRow + `| ${separator.join(' | ')} |\n`;
+  bodyRows.forEach(row => {
+    result += renderRow(row);
+  });
+  return result + '\n';
+}
+
+/**
+ * Human-readable names for DocC declaration keywords
+ */
+const SYMBOL_KEYWORD_NAMES: Record<string, string> = {
+  'class': 'Class',
+  'struct': 'Structure',
+  'enum': 'Enumeration',
+  'protocol': 'Protocol',
+  'actor': 'Actor',
+  'func': 'Function',
+  'init': 'Initializer',
+  'var': 'Property',
+  'let': 'Constant',
+  'case': 'Case',
+  'subscript': 'Subscript',
+  'typealias': 'Type Alias',
+  'associatedtype': 'Associated Type',
+  'macro': 'Macro',
+  'operator': 'Operator',
+  'extension': 'Extension',
+  '@interface': 'Class',
+  '@protocol': 'Protocol',
+  '@property': 'Property',
+  'typedef': 'Type Alias',
+};
+
+/**
+ * Human-readable names for DocC page roles
+ */
+const ROLE_NAMES: Record<string, string> = {
+  'article': 'Article',
+  'collection': 'Framework',
+  'collectionGroup': 'API Collection',
+  'sampleCode': 'Sample Code',
+  'overview': 'Overview',
+  'dictionarySymbol': 'Dictionary',
+  'pseudoSymbol': 'Symbol',
+  'restRequestSymbol': 'REST Endpoint',
+  'link': 'Link',
+};
+
+/**
+ * Declaration keywords that modify the declared symbol rather than naming its kind.
+ * `class` is also a modifier (`class func`) unless nothing else follows it.
+ */
+const MODIFIER_KEYWORDS = new Set([
+  'static', 'class', 'final', 'override', 'convenience', 'required', 'mutating', 'nonmutating', 'nonisolated',
+  'dynamic', 'lazy', 'weak', 'unowned', 'open', 'public', 'optional', 'indirect', 'async', 'throws', 'rethrows',
+]);
+
+/**
+ * Human-readable names for DocC `symbolKind` values
+ */
+const SYMBOL_KIND_NAMES: Record<string, string> = {
+  'class': 'Class',
+  'struct': 'Structure',
+  'enum': 'Enumeration',
+  'protocol': 'Protocol',
+  'actor': 'Actor',
+  'case': 'Case',
+  'init': 'Initializer',
+  'method': 'Instance Method',
+  'type.method': 'Type Method',
+  'func': 'Function',
+  'property': 'Instance Property',
+  'type.property': 'Type Property',
+  'var': 'Global Variable',
+  'subscript': 'Subscript',
+  'typealias': 'Type Alias',
+  'associatedtype': 'Associated Type',
+  'macro': 'Macro',
+  'op': 'Operator',
+  'extension': 'Extension',
+};
+
+/**
+ * Describe a symbol from its declaration fragments (e.g. "Class", "Instance Method", "Type Property")
+ * @param url Path of the symbol's page; members of a type sit below the type's page
+ */
+function describeDeclarationKind(fragments: any[], url?: string): string | undefined {
+  // Initializers carry "init" as an identifier
+  const keywords: string[] = fragments
+    .filter(fragment => fragment.kind === 'keyword' || (fragment.kind === 'identifier' && fragment.text === 'init'))
+    .map(fragment => fragment.text);
+  const declared = keywords.find(text => SYMBOL_KEYWORD_NAMES[text] && !MODIFIER_KEYWORDS.has(text))
+    ?? (keywords.includes('class') ? 'class' : undefined);
+
+  if (declared) {
+    const isTypeMember = keywords.includes('static') || (keywords.includes('class') && declared !== 'class');
+    const isMember = isTypeMember || (url ? url.split('/').filter(Boolean).length > 3 : false);
+    switch (declared) {
+      case 'func':
+        return isTypeMember ? 'Type Method' : isMember ? 'Instance Method' : 'Function';
+      case 'var':
+      case 'let':
+        return isTypeMember ? 'Type Property' : isMember ? 'Instance Property' : SYMBOL_KEYWORD_NAMES[declared];
+      case 'subscript':
+        return isTypeMember ? 'Type Subscript' : 'Subscript';
+      default:
+        return SYMBOL_KEYWORD_NAMES[declared];
     }
+  }
+
+  // Objective-C methods start with "+" or "-"
+  const first = fragments[0]?.text?.trim();
+  if (first === '+' || first === '-') {
+    return first === '+' ? 'Type Method' : 'Instance Method';
+  }
+  const other = keywords.filter(text => !MODIFIER_KEYWORDS.has(text));
+  if (other.length > 0) {
+    const last = other[other.length - 1];
+    return last.charAt(0).toUpperCase() + last.slice(1);
+  }
+  return undefined;
+}
+
+/**
+ * Describe the kind of a referenced page (e.g. "Class", "Instance Property", "Article")
+ */
+function describeReferenceKind(reference: any): string | undefined {
+  if (!reference) {
+    return undefined;
+  }
+
+  if (reference.kind === 'symbol' && reference.role !== 'collection') {
+    // Objective-C variants replace the fragments with a bare name; the published Swift declaration still tells the kind
+    const kind = (Array.isArray(reference.fragments) ? describeDeclarationKind(reference.fragments, reference.url) : undefined)
+      ?? (Array.isArray(reference.sourceFragments) ? describeDeclarationKind(reference.sourceFragments, reference.url) : undefined)
+      ?? SYMBOL_KIND_NAMES[reference.symbolKind]
+      ?? ROLE_NAMES[reference.role];
+    return kind || 'Symbol';
+  }
+
+  if (reference.role && ROLE_NAMES[reference.role]) {
+    return ROLE_NAMES[reference.role];
+  }
+  if (reference.type === 'link') {
+    return ROLE_NAMES.link;
+  }
+  return undefined;
+}
+
+/**
+ * Render one topic member as a Markdown list item with its kind and abstract
+ */
+function renderTopicItem(identifier: string, references: any = {}): string {
+  const reference = references && references[identifier];
+
+  if (!reference && identifier.startsWith('http')) {
+    return `- [${extractTitleFromUrl(identifier)}](${identifier})\n`;
+  }
+
+  const link = renderInlineReference({ type: 'reference', identifier }, references);
+  const kind = describeReferenceKind(reference);
+  const abstract = reference?.abstract ? processInlineContent(reference.abstract, references) : '';
+
+  let line = `- ${link}`;
+  if (kind) {
+    line += ` *(${kind})*`;
+  }
+  if (reference?.deprecated) {
+    line += ' **Deprecated**';
+  }
+  if (reference?.beta) {
+    line += ' **Beta**';
+  }
+  if (abstract) {
+    line += `: ${abstract}`;
+  }
+  return `${line}\n`;
+}
+
+/**
+ * Render titled topic groups (topics, relationships, see also) as a headed Markdown section
+ */
+function renderTopicGroups(heading: string, sections: any[], references: any = {}): string {
+  const groups = (sections || []).filter(section => section.identifiers && section.identifiers.length > 0);
+  if (groups.length === 0) {
     return '';
-  }).join('');
+  }
+
+  let result = `## ${heading}\n\n`;
+  groups.forEach(section => {
+    if (section.title) {
+      result += `### ${section.title}\n\n`;
+    }
+    if (section.abstract) {
+      result += `${processInlineContent(section.abstract, references)}\n\n`;
+    }
+    section.identifiers.forEach((identifier: string) => {
+      result += renderTopicItem(identifier, references);
+    });
+    result += '\n';
+  });
+
+  return result;
+}
+
+/**
+ * Render a grid of linked cards (DocC `links` block) as a list
+ */
+function renderLinks(item: any, references: any = {}): string {
+  const identifiers: string[] = item.items || [];
+  const result = identifiers.map(identifier => renderTopicItem(identifier, references)).join('');
+  return result ? result + '\n' : '';
+}
+
+/**
+ * Render a video reference as a Markdown link
+ */
+function renderVideo(item: any, references: any = {}): string {
+  const video = references && references[item.identifier];
+  const caption = item.metadata?.abstract ? processInlineContent(item.metadata.abstract, references) : '';
+  if (!video || !video.variants || video.variants.length === 0) {
+    return caption ? `*Video: ${caption}*\n\n` : '';
+  }
+
+  const videoUrl = toAbsoluteUrl(video.variants[0].url);
+  const title = video.alt || caption || 'Video';
+  return `[▶ Video: ${title}](${videoUrl})\n\n`;
 }
 
 /**
  * Process content items from Apple Documentation JSON
+ * Renders every DocC RenderNode block type to Markdown; unknown types get an explicit placeholder.
  */
 function processContentItems(items: any[], references: any = {}): string {
   if (!items || !Array.isArray(items)) return '';
@@ -370,58 +1066,132 @@ function processContentItems(items: any[], references: any = {}): string {
   let result = '';
   
   items.forEach((item: any) => {
-    if (item.type === 'paragraph' && item.inlineContent) {
-      result += `${processInlineContent(item.inlineContent)}\n\n`;
-    } 
-    else if (item.type === 'heading') {
-      result += `### ${item.text}\n\n`;
-    }
-    else if (item.type === 'codeBlock') {
-      result += `\`\`\`${item.syntax || ''}\n${item.code || ''}\n\`\`\`\n\n`;
-    }
-    else if (item.type === 'unorderedList' && item.items) {
-      item.items.forEach((listItem: any) => {
-        if (listItem.content) {
-          result += `- ${processContentItems(listItem.content, references).trim()}\n`;
-        }
-      });
-      result += '\n';
-    }
-    else if (item.type === 'orderedList' && item.items) {
-      item.items.forEach((listItem: any, index: number) => {
-        if (listItem.content) {
-          result += `${index + 1}. ${processContentItems(listItem.content, references).trim()}\n`;
-        }
-      });
-      result += '\n';
-    }
-    else if (item.type === 'aside' && item.style && item.content) {
-      result += `> **${item.style.toUpperCase()}**: ${processContentItems(item.content, references).trim()}\n\n`;
-    }
-    else if (item.type === 'codeListing') {
-      if (item.syntax) {
-        result += `\`\`\`${item.syntax}\n`;
-      } else {
-        result += '```\n';
+    switch (item.type) {
+      case 'paragraph':
+        result += `${processInlineContent(item.inlineContent, references)}\n\n`;
+        break;
+
+      case 'heading': {
+        // Nest page headings below the "## Description" section heading
+        const level = Math.min(6, Math.max(3, (item.level || 2) + 1));
+        result += `${'#'.repeat(level)} ${item.text}\n\n`;
+        break;
       }
-      
-      if (item.fileLocation) {
-        result += `// ${item.fileLocation}\n`;
+
+      case 'codeBlock':
+        result += renderCodeBlock(item.code, item.syntax);
+        break;
+
+      case 'codeListing':
+        result += renderCodeBlock(item.code, item.syntax, item.fileLocation);
+        break;
+
+      case 'unorderedList':
+        (item.items || []).forEach((listItem: any) => {
+          if (listItem.content) {
+            result += `- ${renderListItem(listItem.content, references)}\n`;
+          }
+        });
+        result += '\n';
+        break;
+
+      case 'orderedList': {
+        const start = item.start || 1;
+        (item.items || []).forEach((listItem: any, index: number) => {
+          if (listItem.content) {
+            const marker = `${start + index}. `;
+            result += `${marker}${renderListItem(listItem.content, references, marker.length)}\n`;
+          }
+        });
+        result += '\n';
+        break;
       }
-      
-      if (item.code) {
-        result += `${item.code}\n`;
+
+      case 'aside': {
+        const label = item.name || item.style || 'Note';
+        const body = processContentItems(item.content, references).trim().replace(/\n/g, '\n> ');
+        result += `> **${label.toUpperCase()}**: ${body}\n\n`;
+        break;
       }
-      
-      result += '```\n\n';
-    }
-    else if (item.type === 'image' && item.identifier) {
-      const image = references && references[item.identifier];
-      if (image && image.variants && image.variants.length > 0) {
-        const imageUrl = image.variants[0].url;
-        const altText = image.alt || 'Image';
-        result += `![${altText}](${imageUrl})\n\n`;
+
+      case 'image': {
+        const image = item.identifier ? renderImage(item.identifier, references) : '';
+        if (image) {
+          result += `${image}\n\n`;
+        }
+        if (item.metadata?.abstract) {
+          result += `*${processInlineContent(item.metadata.abstract, references)}*\n\n`;
+        }
+        break;
       }
+
+      case 'video':
+        result += renderVideo(item, references);
+        break;
+
+      case 'table':
+        result += renderTable(item, references);
+        break;
+
+      case 'termList':
+        (item.items || []).forEach((termItem: any) => {
+          const term = processInlineContent(termItem.term?.inlineContent, references);
+          const definition = renderBlocksInline(termItem.definition?.content || [], references);
+          result += `- **${term}**: ${definition}\n`;
+        });
+        result += '\n';
+        break;
+
+      case 'row':
+        (item.columns || []).forEach((column: any) => {
+          result += processContentItems(column.content, references);
+        });
+        break;
+
+      case 'tabNavigator':
+        (item.tabs || []).forEach((tab: any) => {
+          result += `**${tab.title}**\n\n`;
+          result += processContentItems(tab.content, references);
+        });
+        break;
+
+      case 'links':
+        result += renderLinks(item, references);
+        break;
+
+      case 'small':
+        result += `${wrapInline(processInlineContent(item.inlineContent, references), '<small>', '</small>')}\n\n`;
+        break;
+
+      case 'thematicBreak':
+        result += '---\n\n';
+        break;
+
+      case 'dictionaryExample':
+        result += processContentItems(item.summary, references);
+        if (item.example) {
+          result += renderCodeBlock(item.example.code, item.example.syntax || 'json');
+        }
+        break;
+
+      case 'endpointExample':
+        result += processContentItems(item.summary, references);
+        if (item.request) {
+          result += `**Request**\n\n${renderCodeBlock(item.request.code, item.request.syntax || 'http')}`;
+        }
+        if (item.response) {
+          result += `**Response**\n\n${renderCodeBlock(item.response.code, item.response.syntax || 'http')}`;
+        }
+        break;
+
+      case 'step':
+        result += processContentItems(item.content, references);
+        result += processContentItems(item.caption, references);
+        break;
+
+      default:
+        result += `> *Unsupported content block: \`${item.type || 'unknown'}\`*\n\n`;
+        break;
     }
   });
   
@@ -509,7 +1279,7 @@ export function formatHtmlDocumentation(html: string, url: string) {
 
               if (topicText && topicUrl) {
                 const fullUrl = topicUrl.startsWith('http') ?
-                  topicUrl : `https://developer.apple.com${topicUrl}`;
+                  topicUrl : `${APPLE_DEVELOPER_BASE_URL}${topicUrl}`;
                 
                 contentBlocks.push({
                   type: "resource_link",
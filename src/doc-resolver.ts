@@ -0,0 +1,156 @@
+import { APPLE_DEVELOPER_BASE_URL } from './config.js';
+import { convertToJsonApiUrl } from './doc-fetcher.js';
+import { SymbolIndex, SymbolMatch } from './symbol-index.js';
+
+/**
+ * How a documentation reference was written
+ */
+export type DocInputForm = 'url' | 'path' | 'doc-identifier' | 'apple-docs-uri' | 'framework' | 'symbol';
+
+/**
+ * A documentation reference resolved to its canonical URLs
+ */
+export interface ResolvedDocInput {
+  /** Canonical https://developer.apple.com page URL */
+  url: string;
+  /** DocC JSON API URL the page is fetched from */
+  jsonUrl: string;
+  /** Form of the original input */
+  form: DocInputForm;
+}
+
+/**
+ * Maximum number of candidates listed when a symbol name is ambiguous
+ */
+const MAX_CANDIDATES = 8;
+
+/**
+ * Build the canonical page URL for a documentation path, keeping an optional query (e.g. `?language=objc`)
+ */
+function toPageUrl(path: string, query: string = ''): string {
+  // Search results link with a trailing slash; drop it so both forms share one cache entry
+  const normalizedPath = (path.startsWith('/') ? path : `/${path}`).replace(/(.)\/+$/, '$1');
+  return `${APPLE_DEVELOPER_BASE_URL}${normalizedPath}${query}`;
+}
+
+/**
+ * Describe symbol candidates for an ambiguity error
+ */
+function formatCandidates(candidates: SymbolMatch[]): string {
+  return candidates
+    .slice(0, MAX_CANDIDATES)
+    .map(candidate => `- ${[...candidate.parents, candidate.title].join(' › ')} (${candidate.kind}): ${candidate.url}`)
+    .join('\n');
+}
+
+/**
+ * Resolve `Framework.Symbol`, `Framework.Type.member` or `Framework.Type/member` notation through the navigator index.
+ * A bare name resolves to the framework's landing page without loading the index; fetching that page tells whether
+ * the framework exists.
+ */
+async function resolveSymbolName(input: string, symbolIndex: SymbolIndex, signal?: AbortSignal): Promise<ResolvedDocInput> {
+  const separator = input.search(/[./]/);
+  const framework = (separator === -1 ? input : input.slice(0, separator)).replace(/\s+/g, '');
+  const symbol = separator === -1 ? '' : input.slice(separator + 1).replace(/\//g, '.');
+
+  if (!symbol) {
+    const url = toPageUrl(`/documentation/${framework.toLowerCase()}`);
+    return { url, jsonUrl: convertToJsonApiUrl(url), form: 'framework' };
+  }
+
+  let matches: SymbolMatch[];
+  try {
+    matches = await symbolIndex.lookup(framework, symbol, { limit: 50, signal });
+  } catch (error) {
+    if (signal?.aborted) {
+      throw error;
+    }
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Cannot resolve "${input}": ${errorMessage}`);
+  }
+
+  // Only exact and qualified matches are resolved automatically; anything looser needs confirmation
+  const confident = matches.filter(match => match.match === 'exact' || match.match === 'qualified');
+  if (confident.length === 0) {
+    if (matches.length === 0) {
+      throw new Error(`No symbol named "${symbol}" found in ${framework}`);
+    }
+    throw new Error(`No exact match for "${input}". Did you mean:\n${formatCandidates(matches)}`);
+  }
+
+  // Overloads share a name; prefer the one whose path spells out the requested selector
+  const requestedPath = `/${symbol.toLowerCase().replace(/\./g, '/')}`;
+  const byPath = confident.filter(match => new URL(match.url).pathname.toLowerCase().endsWith(requestedPath));
+  const best = byPath.length > 0 ? byPath : confident;
+  const distinct = Array.from(new Map(best.map(match => [match.url, match])).values());
+
+  if (distinct.length > 1) {
+    throw new Error(`"${input}" is ambiguous. Candidates:\n${formatCandidates(distinct)}`);
+  }
+
+  return { url: distinct[0].url, jsonUrl: convertToJsonApiUrl(distinct[0].url), form: 'symbol' };
+}
+
+/**
+ * Resolve any supported documentation reference to its canonical page and JSON URLs.
+ * Supported forms:
+ * - `https://developer.apple.com/documentation/mapkit/mkpolygon` (and the `/tutorials/data/...json` API URL)
+ * - `developer.apple.com/documentation/...` or `/documentation/...`
+ * - `doc://com.apple.documentation/documentation/mapkit/mkpolygon`
+ * - `apple-docs://mapkit/mkpolygon` (resource URIs of this server, including `?language=objc`)
+ * - `SwiftUI`, `SwiftUI.NavigationStack`, `MapKit.MKPolygon.interiorPolygons`, `MapKit.MKPolygon/interiorPolygons`
+ *
+ * @param input The reference as given by the caller
+ * @param symbolIndex Navigator index used for symbol names
+ * @param signal Cancels loading the navigator index
+ * @returns The resolved reference
+ * @throws Error listing candidates when a symbol name is ambiguous or unknown
+ */
+export async function resolveDocInput(input: string, symbolIndex: SymbolIndex, signal?: AbortSignal): Promise<ResolvedDocInput> {
+  const trimmed = input.trim().replace(/^`|`$/g, '');
+
+  // Full URLs
+  if (/^https?:\/\//i.test(trimmed)) {
+    const urlObj = new URL(trimmed);
+    // Other apple.com hosts (docs-assets, forums) serve different content under the same paths
+    if (urlObj.hostname.toLowerCase() !== 'developer.apple.com') {
+      throw new Error(`URL must be from developer.apple.com: ${trimmed}`);
+    }
+    const url = toPageUrl(urlObj.pathname, urlObj.search);
+    return { url, jsonUrl: url.includes('.json') ? url : convertToJsonApiUrl(url), form: 'url' };
+  }
+
+  // Scheme-less URLs and site paths
+  if (/^developer\.apple\.com\//i.test(trimmed)) {
+    return resolveDocInput(`https://${trimmed}`, symbolIndex, signal).then(resolved => ({ ...resolved, form: 'path' as const }));
+  }
+  if (/^\/(documentation|tutorials|design)\//i.test(trimmed)) {
+    const [path, query] = trimmed.split(/(?=\?)/);
+    const url = toPageUrl(path, query);
+    return { url, jsonUrl: convertToJsonApiUrl(url), form: 'path' };
+  }
+
+  // DocC reference identifiers: doc://<bundle>/<path>
+  const docMatch = trimmed.match(/^doc:\/\/[^/]+(\/[^?#]*)/i);
+  if (docMatch) {
+    const url = toPageUrl(docMatch[1].toLowerCase());
+    return { url, jsonUrl: convertToJsonApiUrl(url), form: 'doc-identifier' };
+  }
+
+  // Resource URIs generated by this server: apple-docs://<framework>/<path>[?language=objc]
+  const uriMatch = trimmed.match(/^apple-docs:\/\/([^?#]+)(\?[^#]*)?/i);
+  if (uriMatch) {
+    if (/^doc-[0-9a-f]{8}$/i.test(uriMatch[1])) {
+      throw new Error(`${trimmed} refers to a cached page by hash; read it with resources/read instead`);
+    }
+    const url = toPageUrl(`/documentation/${uriMatch[1].replace(/^\/+|\/+$/g, '')}`, uriMatch[2] || '');
+    return { url, jsonUrl: convertToJsonApiUrl(url), form: 'apple-docs-uri' };
+  }
+
+  // Framework and symbol names
+  if (/^[A-Za-z_][\w ]*([./]\S+)?$/.test(trimmed)) {
+    return resolveSymbolName(trimmed, symbolIndex, signal);
+  }
+
+  throw new Error(`Unrecognized documentation reference "${input}". Use a developer.apple.com URL, a doc:// identifier, an apple-docs:// URI or a name like SwiftUI.NavigationStack`);
+}
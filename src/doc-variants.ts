@@ -0,0 +1,148 @@
+/**
+ * Documentation interface languages supported by the server
+ */
+export type DocLanguage = 'swift' | 'objc';
+
+/**
+ * DocC `interfaceLanguage` trait values for each supported language
+ */
+const INTERFACE_LANGUAGE_TRAITS: Record<DocLanguage, string> = {
+  swift: 'swift',
+  objc: 'occ',
+};
+
+/**
+ * Get the documentation language requested by a URL (Apple uses `?language=objc`)
+ */
+export function getDocLanguageFromUrl(url: string): DocLanguage {
+  try {
+    return new URL(url).searchParams.get('language') === 'objc' ? 'objc' : 'swift';
+  } catch {
+    return 'swift';
+  }
+}
+
+/**
+ * Return the URL for a page in the given language, matching Apple's website (`?language=objc`)
+ */
+export function withDocLanguage(url: string, language: DocLanguage): string {
+  try {
+    const urlObj = new URL(url);
+    if (language === 'objc') {
+      urlObj.searchParams.set('language', 'objc');
+    } else {
+      urlObj.searchParams.delete('language');
+    }
+    return urlObj.toString();
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Get the languages a DocC page is published in
+ */
+export function getAvailableLanguages(jsonData: any): DocLanguage[] {
+  const traits = new Set<string>();
+  (jsonData?.variants || []).forEach((variant: any) => {
+    (variant.traits || []).forEach((trait: any) => {
+      if (trait.interfaceLanguage) {
+        traits.add(trait.interfaceLanguage);
+      }
+    });
+  });
+  if (jsonData?.identifier?.interfaceLanguage) {
+    traits.add(jsonData.identifier.interfaceLanguage);
+  }
+
+  return (Object.keys(INTERFACE_LANGUAGE_TRAITS) as DocLanguage[])
+    .filter(language => traits.has(INTERFACE_LANGUAGE_TRAITS[language]));
+}
+
+/**
+ * Decode a JSON Pointer (RFC 6901) into path segments
+ */
+function parseJsonPointer(pointer: string): string[] {
+  if (pointer === '') {
+    return [];
+  }
+  return pointer
+    .slice(1)
+    .split('/')
+    .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/**
+ * Apply a single JSON Patch (RFC 6902) operation in place; unsupported or invalid operations are skipped
+ */
+function applyPatchOperation(document: any, operation: any): void {
+  const segments = parseJsonPointer(operation.path || '');
+  if (segments.length === 0) {
+    return;
+  }
+
+  let parent = document;
+  for (const segment of segments.slice(0, -1)) {
+    if (parent === null || typeof parent !== 'object' || !(segment in parent)) {
+      return;
+    }
+    parent = parent[segment];
+  }
+  if (parent === null || typeof parent !== 'object') {
+    return;
+  }
+
+  const key = segments[segments.length - 1];
+  switch (operation.op) {
+    case 'replace':
+    case 'add':
+      if (Array.isArray(parent) && operation.op === 'add') {
+        const index = key === '-' ? parent.length : Number(key);
+        parent.splice(index, 0, operation.value);
+      } else {
+        parent[key] = operation.value;
+      }
+      break;
+    case 'remove':
+      if (Array.isArray(parent)) {
+        parent.splice(Number(key), 1);
+      } else {
+        delete parent[key];
+      }
+      break;
+  }
+}
+
+/**
+ * Apply a DocC page's variant overrides for the given language
+ * @param jsonData The DocC JSON as published (Swift by default)
+ * @param language The requested language
+ * @returns The page rendered for the requested language, or the original page and its own language when no variant exists
+ */
+export function applyLanguageVariant(jsonData: any, language: DocLanguage): { jsonData: any; language: DocLanguage } {
+  const sourceLanguage: DocLanguage = jsonData?.identifier?.interfaceLanguage === 'occ' ? 'objc' : 'swift';
+  if (language === sourceLanguage) {
+    return { jsonData, language };
+  }
+
+  const trait = INTERFACE_LANGUAGE_TRAITS[language];
+  const overrides = (jsonData?.variantOverrides || []).filter((override: any) =>
+    (override.traits || []).some((t: any) => t.interfaceLanguage === trait)
+  );
+  if (overrides.length === 0) {
+    return { jsonData, language: sourceLanguage };
+  }
+
+  const patched = structuredClone(jsonData);
+  // Keep the published declaration of each reference so its kind can still be told once the variant renames it
+  Object.values(patched.references || {}).forEach((reference: any) => {
+    if (Array.isArray(reference?.fragments)) {
+      reference.sourceFragments = structuredClone(reference.fragments);
+    }
+  });
+  overrides.forEach((override: any) => {
+    (override.patch || []).forEach((operation: any) => applyPatchOperation(patched, operation));
+  });
+
+  return { jsonData: patched, language };
+}
@@ -1,8 +1,11 @@
-import fetch from 'node-fetch';
 import AdmZip from 'adm-zip';
 import { promises as fs } from 'fs';
 import path from 'path';
 import { tmpdir, homedir } from 'os';
+import { RequestInit } from 'node-fetch';
+import { fetchUpstream } from './upstream.js';
+import { APPLE_DOCS_ASSETS_BASE_URL } from './config.js';
+import { throwIfCancelled } from './cancellation.js';
 
 /**
  * Interface for Apple Documentation JSON with sample code download
@@ -19,13 +22,31 @@ interface AppleDocWithSampleJSON {
   };
 }
 
+/**
+ * Structured manifest of a downloaded code sample
+ */
+export type CodeSampleManifest = {
+  sampleName: string;
+  downloadUrl: string;
+  originalUrl: string;
+  extractionDir: string;
+  fileCount: number;
+  fileTypes: Record<string, number>;
+  /** All extracted files, relative to the extraction directory */
+  files: string[];
+  /** Suggested starting points, relative to the extraction directory */
+  keyFiles: string[];
+  hasReadme: boolean;
+};
+
 /**
  * Extract the sample code download URL from an Apple Documentation page
  * 
  * @param jsonUrl URL of the Apple Developer Documentation page
+ * @param signal Cancels the request
  * @returns The sample code download URL in the format: https://docs-assets.developer.apple.com/published/[identifier]/[filename].zip
  */
-export async function getSampleCodeDownloadUrl(jsonUrl: string): Promise<string> {
+export async function getSampleCodeDownloadUrl(jsonUrl: string, signal?: AbortSignal): Promise<string> {
   try {
     console.error(`Fetching download URL from documentation page: ${jsonUrl}`);
 
@@ -53,11 +74,12 @@ export async function getSampleCodeDownloadUrl(jsonUrl: string): Promise<string>
       console.error(`Fetching documentation JSON from: ${jsonApiUrl}`);
 
       // Fetch the documentation JSON
-      const response = await fetch(jsonApiUrl, {
+      const response = await fetchUpstream(jsonApiUrl, {
         headers: {
           'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
           'Accept': 'application/json',
         },
+        signal: signal as RequestInit['signal'],
       });
 
       if (!response.ok) {
@@ -83,7 +105,7 @@ Try searching for a different example that includes sample code.`);
 
     // The identifier is already in the format "f14a9bc447c5/DisplayingOverlaysOnAMap.zip"
     // Construct the download URL
-    const downloadUrl = `https://docs-assets.developer.apple.com/published/${downloadIdentifier}`;
+    const downloadUrl = `${APPLE_DOCS_ASSETS_BASE_URL}/published/${downloadIdentifier}`;
 
     console.error(`Found sample code download URL: ${downloadUrl}`);
 
@@ -99,9 +121,10 @@ Try searching for a different example that includes sample code.`);
  * Extracts the sample to the user's home directory
  * 
  * @param zipUrl URL of the Apple Developer code sample ZIP file or documentation page URL
+ * @param signal Cancels the download; a partially extracted sample is removed
  * @returns Formatted information about the code sample or error response
  */
-export async function downloadAndAnalyzeCodeSample(url: string) {
+export async function downloadAndAnalyzeCodeSample(url: string, signal?: AbortSignal) {
   try {
     let downloadUrl = url;
 
@@ -110,9 +133,10 @@ export async function downloadAndAnalyzeCodeSample(url: string) {
       // This is a documentation URL, extract the download URL from it
       try {
         console.error(`Attempting to extract download URL from documentation: ${url}`);
-        downloadUrl = await getSampleCodeDownloadUrl(url);
+        downloadUrl = await getSampleCodeDownloadUrl(url, signal);
         console.error(`Successfully extracted download URL: ${downloadUrl}`);
       } catch (error) {
+        throwIfCancelled(signal);
         throw new Error(`Failed to extract download URL from documentation: ${error instanceof Error ? error.message : String(error)}
 
 To use this tool with a ZIP URL from previous tool results:
@@ -179,10 +203,11 @@ How to create a correct direct ZIP URL from get_apple_doc_content results:
     }
 
     // Download the ZIP file
-    const response = await fetch(downloadUrl, {
+    const response = await fetchUpstream(downloadUrl, {
       headers: {
         'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
       },
+      signal: signal as RequestInit['signal'],
     });
 
     if (!response.ok) {
@@ -192,8 +217,7 @@ How to create a correct direct ZIP URL from get_apple_doc_content results:
     const zipBuffer = await response.buffer();
 
     // Extract the ZIP file to the user's home directory
-    const zip = new AdmZip(zipBuffer);
-    zip.extractAllTo(extractionDir, true);
+    await extractZip(zipBuffer, samplesDir, extractionDir, signal);
 
     console.error(`Extracted sample to: ${extractionDir}`);
 
@@ -258,6 +282,18 @@ How to create a correct direct ZIP URL from get_apple_doc_content results:
     markdownContent += `2. Double-clicking the project file or opening it from Xcode's "Open..." menu\n\n`;
     markdownContent += `The sample code has been downloaded and extracted to: \`${extractionDir}\`\n`;
 
+    const manifest: CodeSampleManifest = {
+      sampleName,
+      downloadUrl,
+      originalUrl: url,
+      extractionDir,
+      fileCount: files.length,
+      fileTypes: fileExtCounts,
+      files: files.map(file => path.relative(extractionDir, file)),
+      keyFiles: interestingFiles.map(file => path.relative(extractionDir, file)),
+      hasReadme: readmeContent !== null
+    };
+
     return {
       content: [
         {
@@ -265,6 +301,7 @@ How to create a correct direct ZIP URL from get_apple_doc_content results:
           text: markdownContent,
         },
       ],
+      structuredContent: manifest,
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -280,6 +317,44 @@ How to create a correct direct ZIP URL from get_apple_doc_content results:
   }
 }
 
+/**
+ * Number of ZIP entries extracted between cancellation checks
+ */
+const EXTRACTION_BATCH_SIZE = 50;
+
+/**
+ * Extract a ZIP archive into a staging directory next to the destination, then move it into place.
+ * An existing sample is updated in place (files are overwritten, others kept), as before.
+ * If extraction is cancelled or fails, the staging directory is removed and the destination is left untouched.
+ */
+async function extractZip(zipBuffer: Buffer, samplesDir: string, extractionDir: string, signal?: AbortSignal): Promise<void> {
+  const stagingDir = path.join(samplesDir, `.${path.basename(extractionDir)}.partial-${process.pid}-${Date.now()}`);
+  const zip = new AdmZip(zipBuffer);
+
+  try {
+    await fs.mkdir(stagingDir, { recursive: true });
+    const entries = zip.getEntries();
+    for (const [index, entry] of entries.entries()) {
+      if (index % EXTRACTION_BATCH_SIZE === 0) {
+        // Yield so a cancellation notification can be processed
+        await new Promise(resolve => setImmediate(resolve));
+        throwIfCancelled(signal);
+      }
+      zip.extractEntryTo(entry, stagingDir, true, true);
+    }
+    throwIfCancelled(signal);
+
+    const exists = await fs.stat(extractionDir).then(stat => stat.isDirectory(), () => false);
+    if (exists) {
+      await fs.cp(stagingDir, extractionDir, { recursive: true, force: true });
+    } else {
+      await fs.rename(stagingDir, extractionDir);
+    }
+  } finally {
+    await fs.rm(stagingDir, { recursive: true, force: true });
+  }
+}
+
 /**
  * Recursively get all files in a directory
  */
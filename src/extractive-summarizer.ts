@@ -0,0 +1,116 @@
+import { tokenize } from './cache/search-index.js';
+import { ContextChunk, ContextDocument, estimateTokens, scoreChunks, splitBlocks, splitSections } from './context-packer.js';
+
+/**
+ * Extractive summary options
+ */
+export interface ExtractiveSummaryOptions {
+  /** Most passages (paragraphs or list items) quoted per document */
+  maxPassages: number;
+  /** Most code listings quoted per document, besides the declaration */
+  maxCodeListings: number;
+}
+
+/**
+ * Sections whose text is never quoted: availability tables carry no explanation
+ */
+const SKIPPED_SECTIONS = new Set(['availability']);
+
+/**
+ * A quotable block of a document
+ */
+interface Passage extends ContextChunk {
+  isCode: boolean;
+  /** Whether the passage shares a term with the question */
+  matches: boolean;
+}
+
+/**
+ * Split a document into passages: paragraphs, single list items and code listings.
+ * List items are quoted one at a time so a relevant entry of a long topic list can be picked on its own.
+ */
+function extractPassages(document: ContextDocument, documentIndex: number, questionTerms: Set<string>): Passage[] {
+  const passages: Passage[] = [];
+
+  for (const { heading, body } of splitSections(document.content)) {
+    if (SKIPPED_SECTIONS.has(heading.toLowerCase())) {
+      continue;
+    }
+    for (const block of splitBlocks(body)) {
+      const isCode = block.trimStart().startsWith('```');
+      if (!isCode && /^#{1,6}\s/.test(block)) {
+        continue;
+      }
+      const lines = block.split('\n');
+      const pieces = !isCode && lines.every(line => /^\s*[-*]\s/.test(line)) ? lines : [block];
+      for (const text of pieces) {
+        passages.push({
+          documentIndex,
+          position: passages.length,
+          heading,
+          text,
+          tokens: estimateTokens(text),
+          score: 0,
+          isCode,
+          matches: tokenize(text).some(term => questionTerms.has(term))
+        });
+      }
+    }
+  }
+
+  return passages;
+}
+
+/**
+ * Answer a question without a language model by quoting the documentation.
+ * For each document it picks the declaration, the passages that best match the question and relevant code listings,
+ * in document order and cited with the document's source number. The result is deterministic and works offline.
+ * @param documents Fetched documents, numbered from 1 in this order
+ * @param question The question to pick passages for
+ * @param options Limits per document
+ * @returns Markdown with one `###` section per document that had something to quote
+ */
+export function extractiveSummary(documents: ContextDocument[], question: string, options: Partial<ExtractiveSummaryOptions> = {}): string {
+  const { maxPassages, maxCodeListings } = { maxPassages: 3, maxCodeListings: 1, ...options };
+  const questionTerms = new Set(tokenize(question));
+
+  const passagesByDocument = documents.map((document, index) => extractPassages(document, index, questionTerms));
+  // Score all passages together so terms that appear everywhere count for little
+  const scored = scoreChunks(passagesByDocument.flat(), question);
+  let offset = 0;
+  passagesByDocument.forEach(passages => {
+    passages.forEach((passage, index) => {
+      passage.score = scored[offset + index].score;
+    });
+    offset += passages.length;
+  });
+
+  const sections: string[] = [];
+  documents.forEach((document, index) => {
+    const sourceNumber = index + 1;
+    const passages = passagesByDocument[index];
+    const byScore = (a: Passage, b: Passage) => b.score - a.score;
+
+    const declaration = passages.find(passage => passage.isCode && passage.heading.toLowerCase() === 'declaration');
+    const prose = passages.filter(passage => !passage.isCode);
+    let selected = prose.filter(passage => passage.matches).sort(byScore).slice(0, maxPassages);
+    if (selected.length === 0 && prose.length > 0) {
+      // Nothing matches the question; the abstract at least says what the page is about
+      selected = [prose[0]];
+    }
+    const code = passages
+      .filter(passage => passage.isCode && passage !== declaration && passage.matches)
+      .sort(byScore)
+      .slice(0, maxCodeListings);
+
+    const quoted = [...(declaration ? [declaration] : []), ...selected, ...code].sort((a, b) => a.position - b.position);
+    if (quoted.length === 0) {
+      return;
+    }
+
+    const body = quoted.map(passage => passage.isCode ? passage.text : `${passage.text} [${sourceNumber}]`);
+    sections.push([`### [${sourceNumber}] ${document.title}`, ...body].join('\n\n'));
+  });
+
+  return sections.join('\n\n');
+}
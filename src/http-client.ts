@@ -0,0 +1,216 @@
+import fetch, { RequestInit, Response } from 'node-fetch';
+import { Readable, finished } from 'stream';
+import { createCancellationError, sleep, throwIfCancelled } from './cancellation.js';
+import { DEFAULT_HTTP_CONFIG, HttpConfig } from './config.js';
+
+/**
+ * Response statuses that are retried with backoff
+ */
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+/**
+ * Concurrency and rate limiting state of one host
+ */
+interface HostState {
+  /** Requests currently holding a slot */
+  active: number;
+  /** Requests waiting for a slot */
+  waiting: Array<() => void>;
+  /** Earliest time the next request may start */
+  nextStart: number;
+}
+
+/**
+ * Parse a `Retry-After` header (delay in seconds or an HTTP date)
+ * @returns The delay in milliseconds, or undefined if the header is missing or invalid
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * HTTP client shared by all upstream requests.
+ * Adds a per-request timeout covering the response body, retries with jittered exponential backoff on 429/5xx responses and
+ * network errors (honoring `Retry-After`), and limits concurrency and request rate per host.
+ */
+export class HttpClient {
+  private config: HttpConfig;
+  private hosts: Map<string, HostState> = new Map();
+
+  constructor(config: Partial<HttpConfig> = {}) {
+    this.config = {
+      ...DEFAULT_HTTP_CONFIG,
+      ...config
+    };
+  }
+
+  /**
+   * Fetch a URL, retrying transient failures
+   * @param url The URL to fetch
+   * @param init Fetch options; aborting `init.signal` cancels waiting, retries and reading the response body
+   * @returns The response; after the last retry a 429/5xx response is returned as is
+   * @throws Error when every attempt fails with a timeout or network error, or when the request is cancelled
+   */
+  async fetch(url: string, init: RequestInit = {}): Promise<Response> {
+    const host = new URL(url).host;
+    const attempts = this.config.retries + 1;
+    const signal = init.signal as AbortSignal | undefined;
+
+    for (let attempt = 1; ; attempt++) {
+      throwIfCancelled(signal);
+
+      let response: Response;
+      try {
+        response = await this.fetchOnce(url, init, host, signal);
+      } catch (error) {
+        if (signal?.aborted || attempt >= attempts) {
+          throw error;
+        }
+        const delay = this.getBackoffDelay(attempt);
+        console.error(`⏳ ${error instanceof Error ? error.message : String(error)}; retrying in ${delay}ms (attempt ${attempt + 1}/${attempts})`);
+        await sleep(delay, signal);
+        continue;
+      }
+
+      if (!RETRYABLE_STATUSES.has(response.status) || attempt >= attempts) {
+        return response;
+      }
+
+      // Waiting longer than allowed is pointless; hand the response back instead
+      const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+      if (retryAfter !== undefined && retryAfter > this.config.maxRetryDelay * 1000) {
+        return response;
+      }
+
+      const delay = retryAfter ?? this.getBackoffDelay(attempt);
+      console.error(`⏳ ${response.status} from ${host}; retrying ${url} in ${delay}ms (attempt ${attempt + 1}/${attempts})`);
+      // Drain the body so the connection can be reused
+      await response.arrayBuffer().catch(() => undefined);
+      await sleep(delay, signal);
+    }
+  }
+
+  /**
+   * Make a single request within the host's limits, aborting it when the timeout elapses before its body has been read
+   */
+  private async fetchOnce(url: string, init: RequestInit, host: string, signal?: AbortSignal): Promise<Response> {
+    await this.acquire(host, signal);
+
+    // Cancellation and the timeout stay wired to the request until the body is read, so they also stop stalled downloads
+    const controller = new AbortController();
+    const onCancel = () => controller.abort();
+    signal?.addEventListener('abort', onCancel, { once: true });
+    let onTimeout = () => controller.abort();
+    const timer = setTimeout(() => onTimeout(), this.config.timeout * 1000);
+    const cleanup = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onCancel);
+    };
+
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, signal: controller.signal as RequestInit['signal'] });
+    } catch (error) {
+      cleanup();
+      if (signal?.aborted) {
+        throw createCancellationError();
+      }
+      if (controller.signal.aborted) {
+        throw new Error(`Request timed out after ${this.config.timeout}s: ${url}`);
+      }
+      throw error;
+    } finally {
+      this.release(host);
+    }
+
+    // node-fetch bodies are Node streams
+    const body = response.body as Readable | null;
+    if (!body) {
+      cleanup();
+      return response;
+    }
+    // Fail the body read with a timeout error rather than a bare abort; an unread body is released the same way
+    onTimeout = () => body.destroy(new Error(`Request timed out after ${this.config.timeout}s while reading the response: ${url}`));
+    finished(body, cleanup);
+    return response;
+  }
+
+  /**
+   * Exponential backoff with jitter: between half and all of `base * 2^(attempt - 1)`, capped
+   */
+  private getBackoffDelay(attempt: number): number {
+    const ceiling = Math.min(this.config.maxRetryDelay, this.config.retryBaseDelay * 2 ** (attempt - 1)) * 1000;
+    return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+  }
+
+  /**
+   * Get the limiter state of a host
+   */
+  private getHost(host: string): HostState {
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = { active: 0, waiting: [], nextStart: 0 };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+
+  /**
+   * Wait for a concurrency slot and the next rate limit window of a host
+   */
+  private async acquire(host: string, signal?: AbortSignal): Promise<void> {
+    const state = this.getHost(host);
+    if (state.active < this.config.maxConcurrency) {
+      state.active++;
+    } else {
+      // The releasing request hands its slot over directly
+      await new Promise<void>((resolve, reject) => {
+        const onCancel = () => {
+          state.waiting.splice(state.waiting.indexOf(waiter), 1);
+          reject(createCancellationError());
+        };
+        const waiter = () => {
+          signal?.removeEventListener('abort', onCancel);
+          resolve();
+        };
+        state.waiting.push(waiter);
+        signal?.addEventListener('abort', onCancel, { once: true });
+      });
+    }
+
+    if (this.config.requestsPerSecond > 0) {
+      const now = Date.now();
+      const start = Math.max(now, state.nextStart);
+      state.nextStart = start + 1000 / this.config.requestsPerSecond;
+      if (start > now) {
+        try {
+          await sleep(start - now, signal);
+        } catch (error) {
+          this.release(host);
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Release a host's concurrency slot, passing it to the next waiting request
+   */
+  private release(host: string): void {
+    const state = this.getHost(host);
+    const next = state.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      state.active--;
+    }
+  }
+}
@@ -3,16 +3,56 @@
 import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { z } from 'zod';
-import fetch from 'node-fetch';
-import { ResourceLink, EmbeddedResource } from '@modelcontextprotocol/sdk/types.js';
-import { parseSearchResults, filterResultsByType, AppleDocSearchResult } from './search-parser.js';
+import { ResourceLink, EmbeddedResource, PromptMessage } from '@modelcontextprotocol/sdk/types.js';
+import {
+  extractSearchResults,
+  formatSearchResults,
+  mergeSearchResults,
+  encodeSearchCursor,
+  decodeSearchCursor,
+  filterResultsByType,
+  filterResultsByFramework,
+  filterResultsByPlatform,
+  classifyResult,
+  getFrameworkFromUrl,
+  AppleDocSearchResult,
+  APPLE_PLATFORMS
+} from './search-parser.js';
 import { downloadAndAnalyzeCodeSample } from './download-helper.js';
 import { fetchAppleDocJson, fetchAppleDocJsonCached } from './doc-fetcher.js';
-import { DocumentSummarizer } from './summarizer.js';
+import { DocumentSummarizer, SummarizationStrategy } from './summarizer.js';
 import { DocumentCache } from './cache/document-cache.js';
+import { DiskDocumentStore } from './cache/disk-store.js';
 import { ResourceManager } from './cache/resource-manager.js';
 import { CacheIntegration } from './cache/cache-integration.js';
-import { setCacheIntegration } from './doc-parsers.js';
+import { setCacheIntegration, PlatformAvailability, AppleDocStructure } from './doc-parsers.js';
+import { DocLanguage, getDocLanguageFromUrl, withDocLanguage } from './doc-variants.js';
+import { searchOutputSchema, cachedSearchOutputSchema, symbolLookupOutputSchema, docContentOutputSchema, codeSampleOutputSchema, researchOutputSchema } from './output-schemas.js';
+import { SymbolIndex, SYMBOL_KINDS } from './symbol-index.js';
+import { resolveDocInput, ResolvedDocInput } from './doc-resolver.js';
+import { fetchUpstream } from './upstream.js';
+import { throwIfCancelled, withTimeout } from './cancellation.js';
+import { APPLE_DEVELOPER_BASE_URL, getConfig } from './config.js';
+
+/**
+ * Maximum number of Apple search result pages read for one search_apple_docs call
+ */
+const MAX_SEARCH_PAGES = 10;
+
+/**
+ * Number of documents research_apple_docs fetches at the same time
+ */
+const RESEARCH_FETCH_CONCURRENCY = 4;
+
+/**
+ * Time allowed for fetching one research document, in milliseconds
+ */
+const RESEARCH_DOCUMENT_TIMEOUT = 20000;
+
+/**
+ * Most sub-queries research_apple_docs plans in addition to the original query
+ */
+const RESEARCH_PLAN_QUERIES = 4;
 
 class AppleDeveloperDocsMCPServer {
   private server: McpServer;
@@ -20,6 +60,7 @@ class AppleDeveloperDocsMCPServer {
   private cache: DocumentCache;
   private resourceManager: ResourceManager;
   private cacheIntegration: CacheIntegration;
+  private symbolIndex: SymbolIndex;
 
   constructor() {
     this.server = new McpServer({
@@ -27,7 +68,12 @@ class AppleDeveloperDocsMCPServer {
       version: '1.0.0',
     });
 
-    this.cache = new DocumentCache();
+    // Persist the cache to disk when a cache directory is configured
+    const cacheConfig = getConfig().cache;
+    this.cache = new DocumentCache({
+      store: cacheConfig.directory ? this.createDiskStore(cacheConfig.directory) : undefined,
+      ttl: cacheConfig.ttl
+    });
     this.resourceManager = new ResourceManager(this.server, this.cache);
 
     // Disable resource registration in the cache integration since we're using the new resource template approach
@@ -38,59 +84,132 @@ class AppleDeveloperDocsMCPServer {
     // Set up global cache integration for doc-parsers
     setCacheIntegration(this.cacheIntegration);
 
+    // Navigator indexes change about as often as framework landing pages
+    this.symbolIndex = new SymbolIndex({ ttl: this.cache.getTtl('framework') });
+
     this.summarizer = new DocumentSummarizer(this.server);
     this.setupTools();
     this.setupResources();
+    this.setupPrompts();
     this.setupErrorHandling();
   }
 
+  /**
+   * Create the disk store for the persistent cache, falling back to memory-only on failure
+   */
+  private createDiskStore(directory: string): DiskDocumentStore | undefined {
+    try {
+      return new DiskDocumentStore(directory);
+    } catch (error) {
+      console.error(`❌ Failed to open disk cache at ${directory}, using in-memory cache:`, error);
+      return undefined;
+    }
+  }
+
   private setupTools() {
     // Define search_apple_docs tool
-    this.server.tool(
+    this.server.registerTool(
       'search_apple_docs',
-      'Search Apple Developer Documentation for APIs, frameworks, guides, samples, and videos',
       {
-        query: z.string().describe('Search query for Apple Developer Documentation'),
-        type: z.enum(['all', 'api', 'guide', 'sample', 'video']).default('all')
-          .describe('Type of documentation to search for')
+        description: 'Search Apple Developer Documentation for APIs, frameworks, guides, samples, and videos',
+        inputSchema: {
+          query: z.string().describe('Search query for Apple Developer Documentation'),
+          type: z.enum(['all', 'api', 'guide', 'article', 'sample', 'tutorial', 'video', 'hig']).default('all')
+            .describe('Type of documentation to search for: api (symbols), guide (articles, tutorials and archived guides), article, sample, tutorial, video or hig (Human Interface Guidelines)'),
+          framework: z.string().optional()
+            .describe('Only return documentation from this framework (e.g., MapKit, swiftui)'),
+          platform: z.enum(APPLE_PLATFORMS).optional()
+            .describe('Only return documentation available on this platform'),
+          limit: z.number().min(1).max(100).default(20).describe('Maximum number of results to return (1-100, default: 20)'),
+          cursor: z.string().optional().describe('Cursor from a previous call\'s nextCursor to get the next page of results')
+        },
+        outputSchema: searchOutputSchema,
+        annotations: { readOnlyHint: true }
       },
-      { readOnlyHint: true },
-      async (args) => this.searchAppleDocs(args.query, args.type)
+      async (args, { signal }) => this.searchAppleDocs(args.query, args.type, args.framework, args.platform, args.limit, args.cursor, signal)
+    );
+
+    // Define search_cached_docs tool
+    this.server.registerTool(
+      'search_cached_docs',
+      {
+        description: 'Full-text search across documentation pages already fetched and cached by this server. Works offline; searches titles, declarations, abstracts and body text and returns highlighted snippets.',
+        inputSchema: {
+          query: z.string().describe('Search terms, e.g. symbol names or concepts'),
+          limit: z.number().min(1).max(50).default(10).describe('Maximum number of results (1-50, default: 10)')
+        },
+        outputSchema: cachedSearchOutputSchema,
+        annotations: { readOnlyHint: true }
+      },
+      async (args) => this.searchCachedDocs(args.query, args.limit)
+    );
+
+    // Define lookup_symbol tool
+    this.server.registerTool(
+      'lookup_symbol',
+      {
+        description: 'Resolve a symbol name (class, protocol, method, property, ...) to its documentation URL using the framework\'s DocC navigator index. Supports exact, qualified (Type.member), prefix and fuzzy names. Faster and more precise than search_apple_docs for known API names.',
+        inputSchema: {
+          framework: z.string().describe('Framework name as it appears in documentation URLs (e.g., mapkit, swiftui, uikit)'),
+          symbol: z.string().describe('Symbol name, optionally qualified (e.g., MKPolygon, MKPolygon.interiorPolygons, init(coordinates:count:))'),
+          kind: z.enum(SYMBOL_KINDS).optional().describe('Only return symbols of this kind'),
+          language: z.enum(['swift', 'objc']).optional().describe('Interface language of the symbol names (default: swift)'),
+          limit: z.number().min(1).max(50).default(10).describe('Maximum number of results (1-50, default: 10)')
+        },
+        outputSchema: symbolLookupOutputSchema,
+        annotations: { readOnlyHint: true }
+      },
+      async (args, { signal }) => this.lookupSymbol(args.framework, args.symbol, args.kind, args.language, args.limit, signal)
     );
 
     // Define get_apple_doc_content tool
-    this.server.tool(
+    this.server.registerTool(
       'get_apple_doc_content',
-      'Get detailed content from a specific Apple Developer Documentation page by recursively fetching and parsing its JSON API data',
-      { url: z.string().describe('URL of the Apple Developer Documentation page') },
-      { readOnlyHint: true },
-      async (args) => this.getAppleDocContent(args.url)
+      {
+        description: 'Get detailed content from a specific Apple Developer Documentation page by recursively fetching and parsing its JSON API data',
+        inputSchema: {
+          url: z.string().describe('The page to fetch: a developer.apple.com URL, a doc:// identifier, an apple-docs:// URI, or a framework-qualified symbol name (e.g., SwiftUI.NavigationStack, MapKit.MKPolygon.interiorPolygons)'),
+          language: z.enum(['swift', 'objc']).optional()
+            .describe('Interface language to render declarations, titles and symbol names in (default: swift, or the URL\'s ?language= value)')
+        },
+        outputSchema: docContentOutputSchema,
+        annotations: { readOnlyHint: true }
+      },
+      async (args, { signal }) => this.getAppleDocContent(args.url, args.language, signal)
     );
 
     // Define download_apple_code_sample tool
-    this.server.tool(
+    this.server.registerTool(
       'download_apple_code_sample',
-      'Download, unzip, and analyze Apple Developer code samples. Works with documentation URLs from search_apple_docs results or direct ZIP URLs. When using direct ZIP URLs from get_apple_doc_content results, extract the identifier from sampleCodeDownload.action.identifier and prepend "https://docs-assets.developer.apple.com/published/" to form the complete URL. Sample code is extracted to ~/AppleSampleCode.',
-      { zipUrl: z.string().describe('URL of the Apple Developer documentation page or direct ZIP download URL from docs-assets.developer.apple.com (e.g., https://docs-assets.developer.apple.com/published/f14a9bc447c5/DisplayingOverlaysOnAMap.zip)') },
-      { readOnlyHint: false },
-      async (args) => this.downloadAppleCodeSample(args.zipUrl)
+      {
+        description: 'Download, unzip, and analyze Apple Developer code samples. Works with documentation URLs from search_apple_docs results or direct ZIP URLs. When using direct ZIP URLs from get_apple_doc_content results, extract the identifier from sampleCodeDownload.action.identifier and prepend "https://docs-assets.developer.apple.com/published/" to form the complete URL. Sample code is extracted to ~/AppleSampleCode.',
+        inputSchema: {
+          zipUrl: z.string().describe('URL of the Apple Developer documentation page or direct ZIP download URL from docs-assets.developer.apple.com (e.g., https://docs-assets.developer.apple.com/published/f14a9bc447c5/DisplayingOverlaysOnAMap.zip)')
+        },
+        outputSchema: codeSampleOutputSchema,
+        annotations: { readOnlyHint: false }
+      },
+      async (args, { signal }) => this.downloadAppleCodeSample(args.zipUrl, signal)
     );
 
     // Define research tool
-    this.server.tool(
+    this.server.registerTool(
       'research_apple_docs',
-      'Research Apple Developer Documentation and research a direct answer to the user question. Combines search, content fetching, and intelligent summarization to provide actionable information tailored to your specific question. Prefer for simple docs lookups and comprehensive answer based on multiple documentation sources in one go.',
       {
-        docs_query: z.string().describe('Search query for Apple Developer Documentation. Use specific API/class names, leverage Apple terminology, and add platform or technology keywords (e.g., SwiftUI, iOS, macOS) to refine results—enclose phrases in quotes for exact matches and include context (e.g., "delegate pattern") for clarity'),
-        user_question: z.string().describe('Specific question or context for the AI to focus on when summarizing (e.g., "How to implement custom navigation patterns?", "What are the performance best practices?")'),
-        max_docs: z.number().min(1).max(10).default(5).describe('Maximum number of documents to analyze (1-10, default: 5)'),
-        depth: z.enum(['s', 'm', 'l', 'xl']).default('m').describe('Length of the explanation: s=brief, m=moderate, l=detailed, xl=comprehensive')
+        description: 'Research Apple Developer Documentation and research a direct answer to the user question. Combines search, content fetching, and intelligent summarization to provide actionable information tailored to your specific question. Prefer for simple docs lookups and comprehensive answer based on multiple documentation sources in one go.',
+        inputSchema: {
+          docs_query: z.string().describe('Search query for Apple Developer Documentation. Use specific API/class names, leverage Apple terminology, and add platform or technology keywords (e.g., SwiftUI, iOS, macOS) to refine results—enclose phrases in quotes for exact matches and include context (e.g., "delegate pattern") for clarity'),
+          user_question: z.string().describe('Specific question or context for the AI to focus on when summarizing (e.g., "How to implement custom navigation patterns?", "What are the performance best practices?")'),
+          max_docs: z.number().min(1).max(10).default(5).describe('Maximum number of documents to analyze (1-10, default: 5)'),
+          depth: z.enum(['s', 'm', 'l', 'xl']).default('m').describe('Length of the explanation: s=brief, m=moderate, l=detailed, xl=comprehensive'),
+          plan: z.boolean().default(false).describe('Plan several targeted searches (symbol names, article titles) from the question before searching, and merge their results. Useful for vague questions'),
+          strategy: z.enum(['single', 'map-reduce']).default('single').describe('single: answer from the most relevant sections of all documents in one pass; map-reduce: take notes on each document separately, then combine them. map-reduce covers long or many documents more thoroughly but makes one extra sampling request per document')
+        },
+        outputSchema: researchOutputSchema,
+        annotations: { readOnlyHint: true }
       },
-      { readOnlyHint: true },
-      async (args, { sendNotification, _meta }) => this.researchAppleDocs(args.docs_query, args.user_question, args.max_docs, args.depth, sendNotification, _meta?.progressToken)
+      async (args, { sendNotification, _meta, signal }) => this.researchAppleDocs(args.docs_query, args.user_question, args.max_docs, args.depth, args.plan, args.strategy, sendNotification, _meta?.progressToken, signal)
     );
-
-
   }
 
   private setupResources() {
@@ -125,12 +244,14 @@ class AppleDeveloperDocsMCPServer {
       }),
       {
         title: 'Apple Developer Documentation',
-        description: 'Cached Apple Developer documentation pages',
+        description: 'Cached Apple Developer documentation pages. Append ?language=objc for the Objective-C variant.',
         mimeType: 'text/markdown'
       },
       async (uri, { framework, path }) => {
-        // Reconstruct the slug from framework and path
+        // Reconstruct the slug from framework and path ({+path} also captures a ?language=objc query)
         const slug = path ? `${framework}/${path}` : framework;
+        const pathSlug = String(slug).split('?')[0];
+        const requestedLanguage = uri.searchParams.get('language') === 'objc' ? 'objc' : 'swift';
         console.error(`Reconstructed slug: ${slug}`);
 
         // Find the cached document that matches this slug
@@ -161,7 +282,7 @@ class AppleDeveloperDocsMCPServer {
               const cleanParts = pathParts.filter(p => p !== 'documentation');
               const urlSlug = cleanParts.join('/');
               console.error(`URL slug for ${doc.url}: ${urlSlug}`);
-              return urlSlug === slug;
+              return urlSlug === pathSlug && getDocLanguageFromUrl(doc.url) === requestedLanguage;
             } catch (error) {
               return false;
             }
@@ -187,35 +308,489 @@ class AppleDeveloperDocsMCPServer {
     );
   }
 
-  private async searchAppleDocs(query: string, type: string = 'all') {
-    try {
-      // Create a search URL for Apple Developer Documentation
-      const searchUrl = `https://developer.apple.com/search/?q=${encodeURIComponent(query)}`;
+  private setupPrompts() {
+    // Each prompt fetches its documentation through the same cached path as get_apple_doc_content
+    // and embeds it, so the client's model answers from the current docs rather than from memory
+    this.server.registerPrompt(
+      'explain-api',
+      {
+        title: 'Explain an API',
+        description: 'Explain what an Apple API is for and how to use it, based on its documentation',
+        argsSchema: {
+          symbol: z.string().describe('Framework-qualified symbol name or documentation URL (e.g., SwiftUI.NavigationStack)')
+        }
+      },
+      async ({ symbol }, { signal }) => {
+        const doc = await this.fetchPromptDocument(symbol, signal);
+        return {
+          description: `Explain ${doc.title}`,
+          messages: [
+            doc.message,
+            this.promptText(`Explain ${doc.title} using the attached Apple Developer documentation.
+
+- What it is and the problem it solves
+- How to use it, with a short, complete Swift example
+- The members you need most, with their declarations
+- Platform availability and anything deprecated
+- Common pitfalls and related APIs to consider instead
+
+Stick to what the documentation says and point out where you go beyond it.`)
+          ]
+        };
+      }
+    );
+
+    this.server.registerPrompt(
+      'migrate-deprecated-api',
+      {
+        title: 'Migrate off a deprecated API',
+        description: 'Plan the migration from a deprecated Apple API to its replacement for a deployment target',
+        argsSchema: {
+          symbol: z.string().describe('Framework-qualified name or documentation URL of the deprecated API (e.g., UIKit.UIApplication.keyWindow)'),
+          deployment_target: z.string().describe('Oldest OS version the app supports (e.g., iOS 15)')
+        }
+      },
+      async ({ symbol, deployment_target }, { signal }) => {
+        const doc = await this.fetchPromptDocument(symbol, signal);
+        const availability = doc.structured.availability || [];
+        const deprecations = availability
+          .filter(entry => entry.deprecated || entry.deprecatedAt)
+          .map(entry => `${entry.platform}${entry.deprecatedAt ? ` ${entry.deprecatedAt}` : ''}${entry.renamed ? ` (renamed to ${entry.renamed})` : ''}`);
+
+        // Embed the replacement's documentation too when the page names one we can resolve
+        const messages: PromptMessage[] = [doc.message];
+        const renamed = availability.find(entry => entry.renamed)?.renamed;
+        const framework = new URL(doc.url).pathname.split('/').filter(Boolean)[1];
+        if (renamed && framework) {
+          try {
+            const replacement = await this.fetchPromptDocument(`${framework}.${renamed.replace(/^-|^\+/, '')}`, signal);
+            messages.push(replacement.message);
+          } catch (error) {
+            throwIfCancelled(signal);
+            console.error(`Replacement ${renamed} not resolved:`, error instanceof Error ? error.message : error);
+          }
+        }
+
+        const status = deprecations.length > 0
+          ? `The documentation lists it as deprecated in ${deprecations.join(', ')}.`
+          : doc.structured.deprecated ? 'The documentation marks it as deprecated.' : 'The documentation does not mark it as deprecated; check whether a migration is needed at all.';
+        messages.push(this.promptText(`Help me migrate my code off ${doc.title}. My app's deployment target is ${deployment_target}. ${status}${doc.structured.deprecationSummary ? `\n\nDeprecation note: ${doc.structured.deprecationSummary}` : ''}
+
+Using the attached documentation:
+- Name the replacement API and explain how it differs
+- Show before and after code
+- If the replacement is newer than ${deployment_target}, show how to keep both paths with availability checks (\`if #available\` / \`@available\`)
+- List behavior changes and anything that needs testing`));
+
+        return { description: `Migrate off ${doc.title} (deployment target ${deployment_target})`, messages };
+      }
+    );
+
+    this.server.registerPrompt(
+      'compare-apis',
+      {
+        title: 'Compare two APIs',
+        description: 'Compare two Apple APIs side by side, based on their documentation',
+        argsSchema: {
+          first: z.string().describe('First API: framework-qualified symbol name or documentation URL (e.g., SwiftUI.NavigationView)'),
+          second: z.string().describe('Second API (e.g., SwiftUI.NavigationStack)')
+        }
+      },
+      async ({ first, second }, { signal }) => {
+        const [firstDoc, secondDoc] = await Promise.all([
+          this.fetchPromptDocument(first, signal),
+          this.fetchPromptDocument(second, signal)
+        ]);
+        return {
+          description: `Compare ${firstDoc.title} and ${secondDoc.title}`,
+          messages: [
+            firstDoc.message,
+            secondDoc.message,
+            this.promptText(`Compare ${firstDoc.title} and ${secondDoc.title} using the attached documentation.
+
+- What each is designed for
+- A table of the differences: purpose, platforms and minimum OS versions, key capabilities, deprecation status
+- The same small task implemented with each, in Swift
+- When to choose one over the other, and how to move from one to the other`)
+          ]
+        };
+      }
+    );
+
+    this.server.registerPrompt(
+      'adopt-framework',
+      {
+        title: 'Adopt a framework',
+        description: 'Plan adopting an Apple framework on a platform, based on its documentation',
+        argsSchema: {
+          framework: z.string().describe('Framework name (e.g., SwiftData, MapKit)'),
+          platform: z.enum(APPLE_PLATFORMS).describe('Platform the app targets')
+        }
+      },
+      async ({ framework, platform }, { signal }) => {
+        const doc = await this.fetchPromptDocument(framework, signal);
+        const support = (doc.structured.availability || []).find(entry => entry.platform.toLowerCase() === platform.toLowerCase());
+        const status = !support
+          ? `The documentation does not list ${platform} availability; confirm that ${doc.title} is supported there.`
+          : support.unavailable
+            ? `The documentation lists ${doc.title} as unavailable on ${platform}.`
+            : `${doc.title} is available from ${platform} ${support.introducedAt || '(version not listed)'}${support.beta ? ' (beta)' : ''}.`;
+
+        return {
+          description: `Adopt ${doc.title} on ${platform}`,
+          messages: [
+            doc.message,
+            this.promptText(`I want to adopt ${doc.title} in my ${platform} app. ${status}
+
+Using the attached documentation, give me an adoption plan:
+- The core types and concepts, in the order I will meet them
+- Project setup: capabilities, entitlements, Info.plist keys or permissions if any
+- A minimal working example in Swift
+- Platform-specific limitations on ${platform}
+- Next steps and the articles or sample code worth reading`)
+          ]
+        };
+      }
+    );
+  }
+
+  /**
+   * Fetch a page for a prompt through get_apple_doc_content's cached path and wrap it as an embedded resource message
+   * @throws Error when the reference cannot be resolved or fetched
+   */
+  private async fetchPromptDocument(reference: string, signal?: AbortSignal): Promise<{
+    title: string;
+    url: string;
+    structured: AppleDocStructure;
+    message: PromptMessage;
+  }> {
+    const result = await this.getAppleDocContent(reference, undefined, signal);
+    throwIfCancelled(signal);
+
+    const [first] = result.content;
+    const text = first?.type === 'text' ? first.text : '';
+    if (result.isError || !result.structuredContent) {
+      throw new Error(text.replace(/^Error:\s*/, '') || `Could not fetch documentation for ${reference}`);
+    }
+
+    // Take the markdown getAppleDocContent embedded: the page is cached under the requested URL, not structured.url after a redirect
+    const structured = result.structuredContent as AppleDocStructure;
+    const cached = (result.content as Array<{ type: string }>).find((item): item is EmbeddedResource => item.type === 'resource');
+    const cachedMarkdown = cached && 'text' in cached.resource ? cached.resource.text : undefined;
+    return {
+      title: structured.title,
+      url: structured.url,
+      structured,
+      message: {
+        role: 'user',
+        content: {
+          type: 'resource',
+          resource: {
+            uri: this.generateDocsUri(structured.url),
+            mimeType: 'text/markdown',
+            text: cachedMarkdown || text
+          }
+        }
+      }
+    };
+  }
+
+  /**
+   * Build a plain text prompt message
+   */
+  private promptText(text: string): PromptMessage {
+    return { role: 'user', content: { type: 'text', text } };
+  }
 
+  private async searchAppleDocs(
+    query: string,
+    type: string = 'all',
+    framework?: string,
+    platform?: string,
+    limit: number = 20,
+    cursor?: string,
+    signal?: AbortSignal
+  ) {
+    // Create a search URL for Apple Developer Documentation
+    const searchUrl = `${APPLE_DEVELOPER_BASE_URL}/search/?q=${encodeURIComponent(query)}`;
+    const filters = [
+      type !== 'all' ? `type: ${type}` : '',
+      framework ? `framework: ${framework}` : '',
+      platform ? `platform: ${platform}` : ''
+    ].filter(Boolean).join(', ');
+
+    let offset = 0;
+    if (cursor) {
+      try {
+        const position = decodeSearchCursor(cursor);
+        if (position.query !== query || position.filters !== filters) {
+          throw new Error('Cursor was issued for a different query or filters');
+        }
+        offset = position.offset;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error: ${errorMessage}`,
+            }
+          ],
+          isError: true
+        };
+      }
+    }
+
+    try {
       console.error(`Searching Apple docs for: ${query}`);
 
-      // Fetch the search results page
-      const response = await fetch(searchUrl, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-        },
+      // Read Apple's result pages until this page of filtered results (plus one, to know if more exist) is covered
+      const needed = offset + limit + 1;
+      const allResults: AppleDocSearchResult[] = [];
+      let filtered: AppleDocSearchResult[] = [];
+      let complete = false;
+      for (let page = 1; filtered.length < needed; page++) {
+        if (page > MAX_SEARCH_PAGES) {
+          break;
+        }
+
+        let pageResults: AppleDocSearchResult[] | undefined;
+        try {
+          pageResults = await this.fetchSearchPage(searchUrl, page, signal);
+        } catch (error) {
+          // Keep what earlier pages found; only a failing first page fails the search
+          if (page === 1 || signal?.aborted) {
+            throw error;
+          }
+          console.error(`Stopping search pagination at page ${page}: ${error instanceof Error ? error.message : String(error)}`);
+          break;
+        }
+        if (!pageResults || mergeSearchResults(allResults, pageResults) === 0) {
+          complete = true;
+          break;
+        }
+        filtered = await this.filterSearchResults(allResults, type, framework, platform, signal);
+      }
+
+      const pageResults = filtered.slice(offset, offset + limit);
+      const hasMore = filtered.length > offset + limit;
+      return formatSearchResults(pageResults, query, searchUrl, {
+        filters,
+        page: {
+          offset,
+          total: filtered.length,
+          complete,
+          ...(hasMore ? { nextCursor: encodeSearchCursor({ query, filters, offset: offset + limit }) } : {})
+        }
       });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      // Fall back to the offline index when the live search is unavailable, unless the call was cancelled
+      const hits = signal?.aborted ? [] : this.cache.search(query, offset + limit + 1);
+      const results = await this.filterSearchResults(hits.map(hit => ({
+        title: hit.title,
+        url: hit.url,
+        description: hit.snippet,
+        type: 'documentation',
+        kind: classifyResult(hit.url, hit.kind ? [hit.kind] : []),
+        framework: getFrameworkFromUrl(hit.url)
+      })), type, framework, platform);
+
+      if (results.length > offset) {
+        console.error(`Live search failed (${errorMessage}), serving cached results`);
+        const hasMore = results.length > offset + limit;
+        const fallback = formatSearchResults(results.slice(offset, offset + limit), query, searchUrl, {
+          filters,
+          page: {
+            offset,
+            total: results.length,
+            complete: !hasMore,
+            ...(hasMore ? { nextCursor: encodeSearchCursor({ query, filters, offset: offset + limit }) } : {})
+          }
+        });
+        return {
+          ...fallback,
+          content: [
+            {
+              type: "text" as const,
+              text: `*Live search failed (${errorMessage}); showing matches from locally cached documentation.*\n\n${fallback.content[0].text}`,
+            }
+          ]
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `Error: Failed to search Apple docs: ${errorMessage}`,
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  /**
+   * Fetch one page of Apple's search results
+   * @returns The page's results, or undefined past the last page
+   * @throws Error if the page cannot be fetched
+   */
+  private async fetchSearchPage(searchUrl: string, page: number, signal?: AbortSignal): Promise<AppleDocSearchResult[] | undefined> {
+    // The first page uses the canonical URL (no page parameter)
+    const pageUrl = page > 1 ? `${searchUrl}&page=${page}` : searchUrl;
+
+    const response = await fetchUpstream(pageUrl, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
+      },
+      signal: signal as RequestInit['signal'],
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch search results: ${response.status}`);
+    }
+
+    const results = extractSearchResults(await response.text());
+    return results.length > 0 ? results : undefined;
+  }
 
-      if (!response.ok) {
-        throw new Error(`Failed to fetch search results: ${response.status}`);
+  /**
+   * Apply the search_apple_docs type, framework and platform filters
+   */
+  private async filterSearchResults(results: AppleDocSearchResult[], type: string, framework?: string, platform?: string, signal?: AbortSignal): Promise<AppleDocSearchResult[]> {
+    let filtered = filterResultsByType(results, type);
+    if (framework) {
+      filtered = filterResultsByFramework(filtered, framework);
+    }
+    if (platform) {
+      filtered = filterResultsByPlatform(await this.annotatePlatforms(filtered, signal), platform);
+    }
+    return filtered;
+  }
+
+  /**
+   * Add platform availability to documentation results, from the cached page or else its framework's landing page
+   */
+  private async annotatePlatforms(results: AppleDocSearchResult[], signal?: AbortSignal): Promise<AppleDocSearchResult[]> {
+    const frameworkPlatforms = new Map<string, string[] | undefined>();
+
+    const annotated: AppleDocSearchResult[] = [];
+    for (const result of results) {
+      let platforms = this.getCachedPlatforms(result.url);
+      if (!platforms && result.framework) {
+        if (!frameworkPlatforms.has(result.framework)) {
+          frameworkPlatforms.set(result.framework, await this.getFrameworkPlatforms(result.framework, signal));
+        }
+        platforms = frameworkPlatforms.get(result.framework);
       }
+      annotated.push(platforms ? { ...result, platforms } : result);
+    }
+    return annotated;
+  }
 
-      const html = await response.text();
+  /**
+   * Get the platforms a cached page is available on
+   */
+  private getCachedPlatforms(url: string): string[] | undefined {
+    // Search results link with a trailing slash; tool calls usually don't
+    const cachedDoc = this.cache.get(url) || this.cache.get(url.replace(/\/+$/, ''));
+    const availability = cachedDoc?.structuredContent?.availability as PlatformAvailability[] | undefined;
+    if (!availability || availability.length === 0) {
+      return undefined;
+    }
+    return availability.filter(item => !item.unavailable).map(item => item.platform);
+  }
 
-      // Parse and return the search results
-      return parseSearchResults(html, query, searchUrl);
+  /**
+   * Get the platforms a framework is available on by fetching (and caching) its landing page
+   */
+  private async getFrameworkPlatforms(framework: string, signal?: AbortSignal): Promise<string[] | undefined> {
+    const frameworkUrl = `${APPLE_DEVELOPER_BASE_URL}/documentation/${framework}`;
+    try {
+      throwIfCancelled(signal);
+      const result = await fetchAppleDocJsonCached(frameworkUrl, undefined, true, signal);
+      if (result.isError) {
+        return undefined;
+      }
+      return this.getCachedPlatforms(frameworkUrl);
+    } catch (error) {
+      console.error(`Failed to get platforms for ${framework}:`, error);
+      return undefined;
+    }
+  }
+
+  private async searchCachedDocs(query: string, limit: number = 10) {
+    const results = this.cache.search(query, limit);
+    const structuredContent = { query, indexedDocuments: this.cache.size(), results };
+
+    if (results.length === 0) {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `No cached documentation matches "${query}" (${this.cache.size()} documents cached). Use search_apple_docs or get_apple_doc_content to fetch more pages.`,
+          }
+        ],
+        structuredContent
+      };
+    }
+
+    const formattedResults = results.map(result => {
+      return `## [${result.title}](${result.url})\n${result.snippet}\n*Type: ${result.type} · Score: ${result.score}*\n`;
+    }).join('\n');
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `# Cached Documentation Results for "${query}"\n\n${formattedResults}`,
+        }
+      ],
+      structuredContent
+    };
+  }
+
+  private async lookupSymbol(framework: string, symbol: string, kind?: string, language?: DocLanguage, limit: number = 10, signal?: AbortSignal) {
+    try {
+      const results = await this.symbolIndex.lookup(framework, symbol, { kind, language, limit, signal });
+      const structuredContent = { framework, symbol, indexUrl: this.symbolIndex.getIndexUrl(framework), results };
+
+      if (results.length === 0) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `No symbols matching "${symbol}"${kind ? ` of kind ${kind}` : ''} found in ${framework}. Try search_apple_docs for a broader search.`,
+            }
+          ],
+          structuredContent
+        };
+      }
+
+      const formattedResults = results.map(result => {
+        const path = [...result.parents, result.title].join(' › ');
+        const flags = [result.deprecated ? 'Deprecated' : '', result.beta ? 'Beta' : ''].filter(Boolean).join(', ');
+        return `- [\`${result.title}\`](${result.url}) (${result.kind}${flags ? `, ${flags}` : ''}): ${path} — *${result.match} match*`;
+      }).join('\n');
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `# Symbols matching "${symbol}" in ${framework}\n\n${formattedResults}`,
+          }
+        ],
+        structuredContent
+      };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       return {
         content: [
           {
             type: "text" as const,
-            text: `Error: Failed to search Apple docs: ${errorMessage}`,
+            text: `Error: Failed to look up symbol: ${errorMessage}`,
           }
         ],
         isError: true
@@ -223,9 +798,42 @@ class AppleDeveloperDocsMCPServer {
     }
   }
 
-  private async getAppleDocContent(url: string) {
+  private async getAppleDocContent(reference: string, language?: DocLanguage, signal?: AbortSignal) {
+    // Accept URLs, doc:// identifiers, apple-docs:// URIs and symbol names
+    let resolved: ResolvedDocInput;
+    try {
+      resolved = await resolveDocInput(reference, this.symbolIndex, signal);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `Error: ${errorMessage}`,
+          }
+        ],
+        isError: true
+      };
+    }
+
+    // Apple's website selects the Objective-C variant with ?language=objc; use the same URL form
+    const url = language ? withDocLanguage(resolved.url, language) : resolved.url;
+
     // Use the cached JSON fetching approach to get documentation content
-    const result = await fetchAppleDocJsonCached(url);
+    const result = await fetchAppleDocJsonCached(url, undefined, true, signal);
+
+    // A bare name is only known to be a framework once its landing page exists
+    if (result.isError && resolved.form === 'framework' && /: 404\b/.test(result.content[0]?.text || '')) {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `Error: "${reference.trim()}" is not a known framework. Qualify symbol names with their framework, e.g. SwiftUI.NavigationStack`,
+          }
+        ],
+        isError: true
+      };
+    }
 
     // If the document was cached, add an EmbeddedResource to include the content
     const cachedDoc = this.cache.get(url);
@@ -242,20 +850,25 @@ class AppleDeveloperDocsMCPServer {
         }
       };
 
-      // Add the embedded resource to the content
+      // Add the embedded resource to the content; entries cached before structured output only carry url and title
       return {
         content: [
           ...result.content,
           embeddedResource
-        ]
+        ],
+        structuredContent: result.structuredContent || { url, title: cachedDoc.title }
       };
     }
 
+    if (!result.isError && !result.structuredContent) {
+      return { ...result, structuredContent: { url, title: url } };
+    }
+
     return result;
   }
 
-  private async downloadAppleCodeSample(zipUrl: string) {
-    return downloadAndAnalyzeCodeSample(zipUrl);
+  private async downloadAppleCodeSample(zipUrl: string, signal?: AbortSignal) {
+    return downloadAndAnalyzeCodeSample(zipUrl, signal);
   }
 
   /**
@@ -270,8 +883,9 @@ class AppleDeveloperDocsMCPServer {
       // Remove 'documentation' from path if present and create a clean slug
       const cleanParts = pathParts.filter(p => p !== 'documentation');
       const slug = cleanParts.join('/') || 'unknown';
+      const languageQuery = getDocLanguageFromUrl(url) === 'objc' ? '?language=objc' : '';
 
-      return `apple-docs://${slug}`;
+      return `apple-docs://${slug}${languageQuery}`;
     } catch (error) {
       // Fallback for invalid URLs
       const hash = this.cache.generateCacheKey(url);
@@ -284,8 +898,11 @@ class AppleDeveloperDocsMCPServer {
     userQuestion: string,
     maxDocs: number = 5,
     depth: 's' | 'm' | 'l' | 'xl' = 'm',
+    plan: boolean = false,
+    strategy: SummarizationStrategy = 'single',
     sendNotification?: (notification: any) => Promise<void>,
-    progressToken?: string | number
+    progressToken?: string | number,
+    signal?: AbortSignal
   ) {
     try {
       console.error(`Starting search and summarization for: ${docsQuery}`);
@@ -301,7 +918,27 @@ class AppleDeveloperDocsMCPServer {
       const maxTokens = depthToTokens[depth];
       console.error(`Using depth: ${depth} (${maxTokens} tokens)`);
 
-      // Step 1: Search for documentation
+      // Create a new summarizer instance with the specified maxTokens and strategy, packing context from every fetched document
+      const summarizer = new DocumentSummarizer(this.server, { maxTokens, maxDocuments: maxDocs, strategy });
+
+      // Step 1: Optionally plan targeted sub-queries, then search for documentation
+      let queries = [docsQuery];
+      if (plan) {
+        if (sendNotification && progressToken) {
+          await sendNotification({
+            method: "notifications/progress",
+            params: {
+              progressToken,
+              progress: 5,
+              total: 100,
+              message: `Planning searches for "${userQuestion}"`
+            }
+          });
+        }
+        queries = await summarizer.planQueries(userQuestion, docsQuery, RESEARCH_PLAN_QUERIES, signal);
+        console.error(`Search plan: ${queries.join(' | ')}`);
+      }
+
       if (sendNotification && progressToken) {
         await sendNotification({
           method: "notifications/progress",
@@ -309,19 +946,30 @@ class AppleDeveloperDocsMCPServer {
             progressToken,
             progress: 10,
             total: 100,
-            message: `Searching "${docsQuery}"`
+            message: queries.length > 1 ? `Searching ${queries.map(query => `"${query}"`).join(', ')}` : `Searching "${docsQuery}"`
           }
         });
       }
 
-      const searchResult = await this.searchAppleDocs(docsQuery);
+      // Only as many results as can be analyzed; more would page through Apple's search for nothing
+      const searchOutcomes = await Promise.all(
+        queries.map(query => this.searchAppleDocs(query, 'all', undefined, undefined, maxDocs, undefined, signal))
+      );
+      throwIfCancelled(signal);
 
-      if (searchResult.isError) {
-        return searchResult;
+      const resultLists = searchOutcomes
+        .filter(outcome => 'structuredContent' in outcome)
+        .map(outcome => outcome.structuredContent!.results as AppleDocSearchResult[]);
+      if (resultLists.length === 0) {
+        return searchOutcomes[0];
       }
 
-      // Parse search results from the formatted text
-      const searchResults = this.parseSearchResultsFromText(searchResult.content[0].text);
+      // Interleave by rank so each query's best hits make the cut, dropping pages found more than once
+      const searchResults: AppleDocSearchResult[] = [];
+      const longest = Math.max(...resultLists.map(list => list.length));
+      for (let rank = 0; rank < longest; rank++) {
+        resultLists.forEach(list => mergeSearchResults(searchResults, list.slice(rank, rank + 1)));
+      }
 
       if (searchResults.length === 0) {
         return {
@@ -335,82 +983,119 @@ class AppleDeveloperDocsMCPServer {
         };
       }
 
-      // Step 2: Fetch content for top results
+      // Step 2: Fetch content for top results, a few at a time; progress follows completion order
       const limitedResults = searchResults.slice(0, maxDocs);
       console.error(`Fetching content for ${limitedResults.length} documents`);
 
-      const documentContents: string[] = [];
+      const fetched: Array<string | undefined> = new Array(limitedResults.length);
+      const skipped: string[] = [];
+      let nextIndex = 0;
+      let completed = 0;
+      const fetchWorker = async () => {
+        while (nextIndex < limitedResults.length) {
+          throwIfCancelled(signal);
+          const index = nextIndex++;
+          const result = limitedResults[index];
+
+          const outcome = await this.fetchResearchDocument(result, signal);
+          if (typeof outcome === 'string') {
+            fetched[index] = outcome;
+          } else {
+            skipped.push(`${result.title} (${outcome.reason})`);
+          }
 
-      for (const [index, result] of limitedResults.entries()) {
-        try {
-          // Send progress notification for each document being fetched
+          completed++;
           if (sendNotification && progressToken) {
-            const progressValue = 30 + ((index + 1) / limitedResults.length) * 30; // Progress from 30 to 60
             await sendNotification({
               method: "notifications/progress",
               params: {
                 progressToken,
-                progress: Math.round(progressValue),
+                progress: Math.round(30 + (completed / limitedResults.length) * 30), // Progress from 30 to 60
                 total: 100,
-                message: `Fetching content from "${result.title}" (${index + 1}/${limitedResults.length})`
+                message: `${typeof outcome === 'string' ? 'Fetched' : 'Skipped'} "${result.title}" (${completed}/${limitedResults.length})`
               }
             });
           }
-
-          const docResult = await this.getAppleDocContent(result.url);
-          if (docResult.isError) {
-            console.error(`Failed to fetch content for ${result.url}`);
-            documentContents.push(`Error fetching content for ${result.title}`);
-          } else {
-            documentContents.push(docResult.content[0].text);
-          }
-        } catch (error) {
-          console.error(`Error fetching ${result.url}:`, error);
-          documentContents.push(`Error fetching content for ${result.title}`);
         }
+      };
+      await Promise.all(Array.from({ length: Math.min(RESEARCH_FETCH_CONCURRENCY, limitedResults.length) }, fetchWorker));
+      throwIfCancelled(signal);
+
+      // Summarize whatever arrived; sources that failed or timed out are left out
+      const fetchedResults = limitedResults.filter((_, index) => fetched[index] !== undefined);
+      const documentContents = fetched.filter((content): content is string => content !== undefined);
+      if (fetchedResults.length === 0) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error: Could not fetch any of the ${limitedResults.length} documents found for "${docsQuery}": ${skipped.join(', ')}`,
+            }
+          ],
+          isError: true
+        };
       }
 
       // Step 3: Summarize using AI
       console.error(`Summarizing content with AI...`);
 
       // Send progress notification before AI summarization
+      const niceDepth = {
+        's': 'brief',
+        'm': 'moderate',
+        'l': 'detailed',
+        'xl': 'comprehensive'
+      }[depth];
       if (sendNotification && progressToken) {
-        const niceDepth = {
-          's': 'brief',
-          'm': 'moderate',
-          'l': 'detailed',
-          'xl': 'comprehensive'
-        }[depth];
         await sendNotification({
           method: "notifications/progress",
           params: {
             progressToken,
             progress: 70,
             total: 100,
-            message: `Generating ${niceDepth} answer ...`
+            message: !summarizer.supportsSampling()
+              ? `Extracting relevant passages ...`
+              : strategy === 'map-reduce' ? `Taking notes on ${fetchedResults.length} documents ...` : `Generating ${niceDepth} answer ...`
           }
         });
       }
 
-      // Create a new summarizer instance with the specified maxTokens
-      const summarizer = new DocumentSummarizer(this.server, { maxTokens });
-
       const summarizationResult = await summarizer.summarizeContent(
-        limitedResults,
+        fetchedResults,
         documentContents,
         userQuestion,
-        docsQuery
+        docsQuery,
+        signal,
+        async (completed, total) => {
+          if (sendNotification && progressToken) {
+            await sendNotification({
+              method: "notifications/progress",
+              params: {
+                progressToken,
+                progress: Math.round(70 + (completed / total) * 20), // Progress from 70 to 90
+                total: 100,
+                message: completed < total ? `Took notes on ${completed}/${total} documents` : `Combining notes into a ${niceDepth} answer ...`
+              }
+            });
+          }
+        }
       );
 
-      const formattedResult = summarizer.formatResult(
+      let formattedResult = summarizer.formatResult(
         summarizationResult,
         docsQuery,
         userQuestion
       );
+      if (skipped.length > 0) {
+        formattedResult += `\n\n*Not included: ${skipped.join(', ')}.*`;
+      }
+      if (plan) {
+        formattedResult += `\n\n*Search plan: ${queries.map(query => `"${query}"`).join(', ')}.*`;
+      }
 
       // Add EmbeddedResources for all cached documents that were used
       const embeddedResources: EmbeddedResource[] = [];
-      for (const result of limitedResults) {
+      for (const result of fetchedResults) {
         const cachedDoc = this.cache.get(result.url);
         if (cachedDoc) {
           const resourceUri = this.generateDocsUri(result.url);
@@ -449,6 +1134,15 @@ class AppleDeveloperDocsMCPServer {
           },
           ...embeddedResources
         ],
+        structuredContent: {
+          query: docsQuery,
+          question: userQuestion,
+          answer: summarizationResult.insights.trim(),
+          sources: summarizationResult.relevantDocs,
+          method: summarizationResult.method,
+          citations: summarizationResult.citations,
+          ...(plan ? { plan: queries } : {})
+        }
       };
 
     } catch (error) {
@@ -467,49 +1161,29 @@ class AppleDeveloperDocsMCPServer {
     }
   }
 
-  private parseSearchResultsFromText(searchText: string): AppleDocSearchResult[] {
-    const results: AppleDocSearchResult[] = [];
-
-    // Parse the formatted search results text
-    const lines = searchText.split('\n');
-    let currentResult: Partial<AppleDocSearchResult> = {};
-
-    for (const line of lines) {
-      // Look for markdown links in format: ## [Title](URL)
-      const linkMatch = line.match(/^## \[([^\]]+)\]\(([^)]+)\)$/);
-      if (linkMatch) {
-        // Save previous result if complete
-        if (currentResult.title && currentResult.url) {
-          results.push(currentResult as AppleDocSearchResult);
-        }
-
-        // Start new result
-        currentResult = {
-          title: linkMatch[1],
-          url: linkMatch[2],
-          description: '',
-          type: 'documentation' // default type
-        };
-      } else if (line.startsWith('*Type:')) {
-        // Extract type: *Type: documentation*
-        const typeMatch = line.match(/\*Type:\s*([^*]+)\*/);
-        if (typeMatch && currentResult.title) {
-          currentResult.type = typeMatch[1];
-        }
-      } else if (line.trim() && !line.startsWith('#') && !line.startsWith('*') && !line.startsWith('View all')) {
-        // This is likely description content
-        if (currentResult.title && line.length > 10) {
-          currentResult.description = (currentResult.description || '') + ' ' + line.trim();
-        }
+  /**
+   * Fetch one research document's Markdown within the per-document timeout
+   * @returns The Markdown, or why the document was skipped
+   */
+  private async fetchResearchDocument(result: AppleDocSearchResult, signal?: AbortSignal): Promise<string | { reason: string }> {
+    const timeout = withTimeout(signal, RESEARCH_DOCUMENT_TIMEOUT);
+    try {
+      const docResult = await this.getAppleDocContent(result.url, undefined, timeout.signal);
+      if (timeout.timedOut()) {
+        console.error(`Timed out fetching ${result.url}`);
+        return { reason: `timed out after ${RESEARCH_DOCUMENT_TIMEOUT / 1000}s` };
       }
+      if (docResult.isError) {
+        console.error(`Failed to fetch content for ${result.url}`);
+        return { reason: 'fetch failed' };
+      }
+      return docResult.content[0].text;
+    } catch (error) {
+      console.error(`Error fetching ${result.url}:`, error);
+      return { reason: 'fetch failed' };
+    } finally {
+      timeout.clear();
     }
-
-    // Add the last result if complete
-    if (currentResult.title && currentResult.url) {
-      results.push(currentResult as AppleDocSearchResult);
-    }
-
-    return results;
   }
 
   private setupErrorHandling() {
@@ -523,6 +1197,8 @@ class AppleDeveloperDocsMCPServer {
   async run() {
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
+    const { developerBaseUrl, assetsBaseUrl } = getConfig().upstream;
+    console.error(`Upstream: ${developerBaseUrl} (assets: ${assetsBaseUrl})`);
     console.error('Apple Developer Docs MCP server running on stdio');
   }
 }
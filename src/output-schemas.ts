@@ -0,0 +1,142 @@
+import { z } from 'zod';
+
+/**
+ * MCP output schemas (zod raw shapes) for the structuredContent each tool returns.
+ * These mirror AppleDocSearchResults, AppleDocStructure, CodeSampleManifest and the research answer.
+ */
+
+const searchResultSchema = z.object({
+  title: z.string(),
+  url: z.string(),
+  description: z.string(),
+  type: z.string(),
+  kind: z.enum(['symbol', 'article', 'sample', 'tutorial', 'video', 'hig', 'guide', 'forum', 'news', 'general']).optional(),
+  framework: z.string().optional(),
+  platforms: z.array(z.string()).optional()
+});
+
+const topicGroupSchema = z.object({
+  title: z.string(),
+  items: z.array(z.object({
+    title: z.string(),
+    url: z.string(),
+    kind: z.string().optional(),
+    abstract: z.string().optional(),
+    deprecated: z.boolean().optional()
+  }))
+});
+
+/**
+ * Output of search_apple_docs
+ */
+export const searchOutputSchema = {
+  query: z.string(),
+  searchUrl: z.string(),
+  results: z.array(searchResultSchema),
+  offset: z.number().optional(),
+  total: z.number().optional(),
+  totalIsLowerBound: z.boolean().optional(),
+  nextCursor: z.string().optional()
+};
+
+/**
+ * Output of search_cached_docs
+ */
+export const cachedSearchOutputSchema = {
+  query: z.string(),
+  indexedDocuments: z.number(),
+  results: z.array(z.object({
+    title: z.string(),
+    url: z.string(),
+    type: z.string(),
+    score: z.number(),
+    snippet: z.string()
+  }))
+};
+
+/**
+ * Output of lookup_symbol
+ */
+export const symbolLookupOutputSchema = {
+  framework: z.string(),
+  symbol: z.string(),
+  indexUrl: z.string(),
+  results: z.array(z.object({
+    title: z.string(),
+    kind: z.string(),
+    url: z.string(),
+    parents: z.array(z.string()),
+    deprecated: z.boolean(),
+    beta: z.boolean(),
+    match: z.enum(['exact', 'qualified', 'prefix', 'substring', 'fuzzy']),
+    score: z.number()
+  }))
+};
+
+/**
+ * Output of get_apple_doc_content
+ */
+export const docContentOutputSchema = {
+  url: z.string(),
+  title: z.string(),
+  kind: z.string().optional(),
+  language: z.enum(['swift', 'objc']).optional(),
+  abstract: z.string().optional(),
+  declaration: z.string().optional(),
+  parameters: z.array(z.object({ name: z.string(), description: z.string() })).optional(),
+  returnValue: z.string().optional(),
+  availability: z.array(z.object({
+    platform: z.string(),
+    introducedAt: z.string().optional(),
+    deprecatedAt: z.string().optional(),
+    obsoletedAt: z.string().optional(),
+    beta: z.boolean(),
+    deprecated: z.boolean(),
+    unavailable: z.boolean(),
+    renamed: z.string().optional(),
+    message: z.string().optional()
+  })).optional(),
+  deprecated: z.boolean().optional(),
+  deprecationSummary: z.string().optional(),
+  topics: z.array(topicGroupSchema).optional(),
+  relationships: z.array(topicGroupSchema).optional(),
+  seeAlso: z.array(topicGroupSchema).optional(),
+  sampleCodeUrl: z.string().optional(),
+  redirectedFrom: z.array(z.string()).optional()
+};
+
+/**
+ * Output of download_apple_code_sample
+ */
+export const codeSampleOutputSchema = {
+  sampleName: z.string(),
+  downloadUrl: z.string(),
+  originalUrl: z.string(),
+  extractionDir: z.string(),
+  fileCount: z.number(),
+  fileTypes: z.record(z.number()),
+  files: z.array(z.string()),
+  keyFiles: z.array(z.string()),
+  hasReadme: z.boolean()
+};
+
+/**
+ * Output of research_apple_docs
+ */
+export const researchOutputSchema = {
+  query: z.string(),
+  question: z.string(),
+  answer: z.string(),
+  sources: z.array(z.object({
+    title: z.string(),
+    url: z.string(),
+    relevance: z.string()
+  })),
+  method: z.enum(['sampling', 'extractive']),
+  citations: z.object({
+    cited: z.array(z.number()),
+    invalid: z.array(z.number()),
+    uncitedParagraphs: z.number()
+  }).optional(),
+  plan: z.array(z.string()).optional()
+};
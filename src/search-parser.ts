@@ -1,4 +1,38 @@
 import * as cheerio from 'cheerio';
+import { APPLE_DEVELOPER_BASE_URL } from './config.js';
+
+/**
+ * What a search result points at, derived from its URL shape and DocC role
+ */
+export type SearchResultKind =
+  | 'symbol'
+  | 'article'
+  | 'sample'
+  | 'tutorial'
+  | 'video'
+  | 'hig'
+  | 'guide'
+  | 'forum'
+  | 'news'
+  | 'general';
+
+/**
+ * Values accepted by the `type` filter of search_apple_docs, mapped to the result kinds they include
+ */
+export const SEARCH_TYPE_KINDS: Record<string, SearchResultKind[]> = {
+  api: ['symbol'],
+  guide: ['article', 'tutorial', 'guide'],
+  article: ['article'],
+  sample: ['sample'],
+  tutorial: ['tutorial'],
+  video: ['video'],
+  hig: ['hig']
+};
+
+/**
+ * Apple platforms accepted by the platform filter, as named in DocC availability
+ */
+export const APPLE_PLATFORMS = ['iOS', 'iPadOS', 'macOS', 'Mac Catalyst', 'tvOS', 'watchOS', 'visionOS'] as const;
 
 /**
  * Interface for Apple Doc Search Results
@@ -7,81 +41,331 @@ export interface AppleDocSearchResult {
   title: string;
   url: string;
   description: string;
+  /** Result category reported by the search page (documentation, video, sample, general, ...) */
   type: string;
+  /** Classification of the result */
+  kind?: SearchResultKind;
+  /** Framework the result belongs to (documentation results only) */
+  framework?: string;
+  /** Platforms the documented API is available on, when known */
+  platforms?: string[];
 }
 
 /**
- * Parse HTML search results from Apple Developer Documentation
- * 
- * @param html HTML content from the search results page
- * @param query Original search query
- * @param searchUrl URL of the search
- * @returns Formatted search results or error response
+ * Structured search output returned alongside the Markdown text
  */
-export function parseSearchResults(html: string, query: string, searchUrl: string) {
+export type AppleDocSearchResults = {
+  query: string;
+  searchUrl: string;
+  results: AppleDocSearchResult[];
+  /** Position of the first returned result among all matches */
+  offset?: number;
+  /** Number of matches found so far; only final when `totalIsLowerBound` is false */
+  total?: number;
+  /** Whether more matches may exist than `total` (paging stopped at the page limit or on an error) */
+  totalIsLowerBound?: boolean;
+  /** Cursor for the next page of results, absent on the last page */
+  nextCursor?: string;
+};
+
+/**
+ * Position in a paginated search, encoded into an opaque cursor
+ */
+export interface SearchCursor {
+  /** Query the cursor belongs to */
+  query: string;
+  /** Applied filters, so a cursor is not reused with different filters */
+  filters: string;
+  /** Offset of the next result */
+  offset: number;
+}
+
+/**
+ * Pagination details for formatted search results
+ */
+export interface SearchPageInfo {
+  offset: number;
+  total: number;
+  /** Whether `total` is final (all upstream pages were read); otherwise it is a lower bound */
+  complete: boolean;
+  nextCursor?: string;
+}
+
+/**
+ * DocC disambiguation suffixes of symbol path segments (`mkmaprect-swift.struct`, `init(_:)-3b4ad`)
+ */
+const DISAMBIGUATION_SUFFIX = /-((swift|objc|c)\.[a-z.]+|(?=[a-z]*\d)[a-z0-9]{4,6})$/;
+
+/**
+ * Whether a documentation path ends in a symbol rather than an article.
+ * Symbol identifiers cannot contain hyphens, so once DocC's disambiguation suffix is removed a hyphen marks an article slug
+ * (`app-organization`, `creating-a-tile-map`). Old-style underscore slugs are indistinguishable from identifiers and count as symbols.
+ */
+function isSymbolPath(pathname: string): boolean {
+  const slug = pathname.replace(/\/+$/, '').split('/').pop() || '';
+  return !slug.replace(DISAMBIGUATION_SUFFIX, '').includes('-');
+}
+
+/**
+ * Whether a documentation path is a framework landing page (`/documentation/mapkit`)
+ */
+function isFrameworkPath(pathname: string): boolean {
+  return pathname.replace(/\/+$/, '').split('/').length === 3;
+}
+
+/**
+ * Classify a search result by its URL, its role tags (`Documentation Article`, `Sample Code`) and the search page's category.
+ * Documentation results are articles or symbols according to their role; only results without one are judged by their path.
+ * Framework landing pages and API collections group symbols rather than declare one, so they count as articles.
+ *
+ * @param url Absolute result URL
+ * @param tags Result tag labels from the search page (e.g. "Documentation Article", "WWDC23 Video") or the page's role
+ * @param type Result category from the search page
+ * @returns The result kind
+ */
+export function classifyResult(url: string, tags: string[] = [], type: string = ''): SearchResultKind {
+  let pathname: string;
   try {
-    const $ = cheerio.load(html);
-    const results: AppleDocSearchResult[] = [];
+    pathname = new URL(url, APPLE_DEVELOPER_BASE_URL).pathname.toLowerCase();
+  } catch {
+    return 'general';
+  }
+  const labels = tags.map(tag => tag.toLowerCase());
 
-    // Find all search result items
-    $('.search-results .search-result').each((i, element) => {
-      const resultItem = $(element);
+  if (pathname.startsWith('/videos/play/')) {
+    return 'video';
+  }
+  if (pathname.startsWith('/design/human-interface-guidelines')) {
+    return 'hig';
+  }
+  if (pathname.startsWith('/tutorials/') || labels.some(label => label.includes('tutorial'))) {
+    return 'tutorial';
+  }
+  if (pathname.startsWith('/forums/')) {
+    return 'forum';
+  }
+  if (pathname.startsWith('/news/')) {
+    return 'news';
+  }
+  if (pathname.startsWith('/library/archive/')) {
+    return 'guide';
+  }
+  if (type === 'sample' || labels.some(label => label.includes('sample code'))) {
+    return 'sample';
+  }
+  if (pathname.startsWith('/documentation/')) {
+    if (isFrameworkPath(pathname) || labels.some(label => label.includes('article') || label.includes('collection') || label === 'framework')) {
+      return 'article';
+    }
+    if (labels.length > 0) {
+      return 'symbol';
+    }
+    return isSymbolPath(pathname) ? 'symbol' : 'article';
+  }
+  if (type === 'video') {
+    return 'video';
+  }
+  return 'general';
+}
+
+/**
+ * Get the framework a documentation URL belongs to (e.g. `mapkit` for /documentation/mapkit/mkpolygon)
+ */
+export function getFrameworkFromUrl(url: string): string | undefined {
+  try {
+    const match = new URL(url, APPLE_DEVELOPER_BASE_URL).pathname.match(/^\/documentation\/([^/]+)/i);
+    return match ? match[1].toLowerCase() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Encode a search position as an opaque cursor
+ */
+export function encodeSearchCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify({ q: cursor.query, f: cursor.filters, o: cursor.offset })).toString('base64url');
+}
 
-      // Extract type (documentation, video, etc.)
-      const resultType = resultItem.hasClass('documentation') ? 'documentation' :
-        resultItem.hasClass('video') ? 'video' :
-          resultItem.hasClass('sample') ? 'sample' :
+/**
+ * Decode a cursor returned by search_apple_docs
+ * @throws Error if the cursor is malformed
+ */
+export function decodeSearchCursor(cursor: string): SearchCursor {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (typeof decoded.q !== 'string' || typeof decoded.f !== 'string' || !Number.isInteger(decoded.o) || decoded.o < 0) {
+      throw new Error('missing fields');
+    }
+    return { query: decoded.q, filters: decoded.f, offset: decoded.o };
+  } catch {
+    throw new Error(`Invalid search cursor: ${cursor}`);
+  }
+}
+
+/**
+ * Key identifying the same page across search result pages (trailing slashes and fragments ignored)
+ */
+function getResultKey(url: string): string {
+  return url.replace(/#.*$/, '').replace(/\/+(\?|$)/, '$1').toLowerCase();
+}
+
+/**
+ * Append results to a list, skipping pages already present
+ * @returns Number of results added
+ */
+export function mergeSearchResults(results: AppleDocSearchResult[], additions: AppleDocSearchResult[]): number {
+  const seen = new Set(results.map(result => getResultKey(result.url)));
+  let added = 0;
+  for (const result of additions) {
+    const key = getResultKey(result.url);
+    if (!seen.has(key)) {
+      seen.add(key);
+      results.push(result);
+      added++;
+    }
+  }
+  return added;
+}
+
+/**
+ * Normalize a framework or platform name for comparison ("MapKit JS" → "mapkitjs")
+ */
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Extract search results from an Apple Developer search page
+ *
+ * @param html HTML content from the search results page
+ * @returns Classified search results
+ */
+export function extractSearchResults(html: string): AppleDocSearchResult[] {
+  const $ = cheerio.load(html);
+  const results: AppleDocSearchResult[] = [];
+
+  // Find all search result items
+  $('.search-results .search-result').each((i, element) => {
+    const resultItem = $(element);
+
+    // Extract type (documentation, video, etc.)
+    const resultType = resultItem.hasClass('documentation') ? 'documentation' :
+      resultItem.hasClass('video') ? 'video' :
+        resultItem.hasClass('sample') ? 'sample' :
+          resultItem.hasClass('forums') ? 'forums' :
             resultItem.hasClass('general') ? 'general' : 'other';
 
-      // Extract title
-      const titleElement = resultItem.find('.result-title');
-      const title = titleElement.text().trim();
+    // Extract title
+    const titleElement = resultItem.find('.result-title');
+    const title = titleElement.text().trim();
 
-      // Extract URL
-      const urlElement = titleElement.find('a');
-      let url = urlElement.attr('href') || '';
-      if (url && url.startsWith('/')) {
-        url = `https://developer.apple.com${url}`;
-      }
+    // Extract URL
+    const urlElement = titleElement.find('a');
+    let url = urlElement.attr('href') || '';
+    if (url && url.startsWith('/')) {
+      url = `${APPLE_DEVELOPER_BASE_URL}${url}`;
+    }
 
-      // Extract description
-      const description = resultItem.find('.result-description').text().trim();
+    // Extract description
+    const description = resultItem.find('.result-description').text().trim();
 
-      if (title && url) {
-        results.push({
-          title,
-          url,
-          description,
-          type: resultType
-        });
-      }
-    });
-
-    // If no results were found
-    if (results.length === 0) {
-      return {
-        content: [
-          {
-            type: "text" as const,
-            text: `No results found for "${query}". You can view the search page directly at: ${searchUrl}`,
-          }
-        ],
-      };
+    // Tags such as "Documentation Article" or "WWDC23 Video" carry the DocC role
+    const tags = resultItem.find('.result-tag.platform').map((_, tag) => $(tag).text().replace(/\s+/g, ' ').trim()).get();
+
+    if (title && url) {
+      const kind = classifyResult(url, tags, resultType);
+      const framework = getFrameworkFromUrl(url);
+      results.push({
+        title,
+        url,
+        description,
+        type: resultType,
+        kind,
+        ...(framework ? { framework } : {})
+      });
     }
+  });
+
+  return results;
+}
 
-    // Format results for display
-    const formattedResults = results.map(result => {
-      return `## [${result.title}](${result.url})\n${result.description}\n*Type: ${result.type}*\n`;
-    }).join('\n');
+/**
+ * Format search results as a tool response
+ *
+ * @param results The (filtered) search results to show
+ * @param query Original search query
+ * @param searchUrl URL of the search
+ * @param options Description of the applied filters (e.g. "type: api, framework: mapkit") and pagination details
+ * @returns Formatted search results
+ */
+export function formatSearchResults(
+  results: AppleDocSearchResult[],
+  query: string,
+  searchUrl: string,
+  options: { filters?: string; page?: SearchPageInfo } = {}
+) {
+  const { filters, page } = options;
+  const structuredContent: AppleDocSearchResults = page
+    ? { query, searchUrl, results, offset: page.offset, total: page.total, totalIsLowerBound: !page.complete, ...(page.nextCursor ? { nextCursor: page.nextCursor } : {}) }
+    : { query, searchUrl, results };
+  const filterNote = filters ? ` (${filters})` : '';
 
+  // If no results were found
+  if (results.length === 0) {
+    const pastEnd = page && page.offset > 0 ? ` beyond result ${page.offset}` : '';
     return {
       content: [
         {
           type: "text" as const,
-          text: `# Search Results for "${query}"\n\n${formattedResults}\n\nView all results: ${searchUrl}`,
+          text: `No results found for "${query}"${filterNote}${pastEnd}. You can view the search page directly at: ${searchUrl}`,
         }
       ],
+      structuredContent,
     };
+  }
+
+  // Format results for display
+  const formattedResults = results.map(result => {
+    const details = [
+      `Type: ${result.kind || result.type}`,
+      result.framework ? `Framework: ${result.framework}` : '',
+      result.platforms ? `Platforms: ${result.platforms.join(', ')}` : ''
+    ].filter(Boolean).join(' · ');
+    return `## [${result.title}](${result.url})\n${result.description}\n*${details}*\n`;
+  }).join('\n');
+
+  let pageNote = '';
+  if (page) {
+    const total = page.complete ? `${page.total}` : `at least ${page.total}`;
+    pageNote = `\n\nShowing results ${page.offset + 1}–${page.offset + results.length} of ${total}.`;
+    if (page.nextCursor) {
+      pageNote += ` For more, call search_apple_docs again with cursor: \`${page.nextCursor}\``;
+    }
+  }
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: `# Search Results for "${query}"${filterNote}\n\n${formattedResults}${pageNote}\n\nView all results: ${searchUrl}`,
+      }
+    ],
+    structuredContent,
+  };
+}
+
+/**
+ * Parse HTML search results from Apple Developer Documentation
+ * 
+ * @param html HTML content from the search results page
+ * @param query Original search query
+ * @param searchUrl URL of the search
+ * @returns Formatted search results or error response
+ */
+export function parseSearchResults(html: string, query: string, searchUrl: string) {
+  try {
+    return formatSearchResults(extractSearchResults(html), query, searchUrl);
   } catch (error) {
     console.error('Error parsing search results:', error);
     return {
@@ -108,19 +392,36 @@ export function filterResultsByType(results: AppleDocSearchResult[], type: strin
     return results;
   }
 
+  const kinds = SEARCH_TYPE_KINDS[type] || [];
+  return results.filter(result => kinds.includes(result.kind || classifyResult(result.url, [], result.type)));
+}
+
+/**
+ * Filter search results by framework
+ *
+ * @param results The search results to filter
+ * @param framework Framework name or URL slug (e.g. "MapKit", "mapkit")
+ * @returns Results documented under that framework
+ */
+export function filterResultsByFramework(results: AppleDocSearchResult[], framework: string): AppleDocSearchResult[] {
+  const wanted = normalizeName(framework);
   return results.filter(result => {
-    if (type === 'api' && result.type === 'documentation') {
-      return true;
-    }
-    if (type === 'guide' && result.type === 'documentation') {
-      return true;
-    }
-    if (type === 'sample' && result.type === 'sample') {
-      return true;
-    }
-    if (type === 'video' && result.type === 'video') {
-      return true;
-    }
-    return false;
+    const resultFramework = result.framework || getFrameworkFromUrl(result.url);
+    return resultFramework !== undefined && normalizeName(resultFramework) === wanted;
   });
 }
+
+/**
+ * Filter search results by platform availability.
+ * Results without known availability are kept, since the search page does not report it.
+ *
+ * @param results The search results to filter
+ * @param platform Platform name (e.g. "iOS", "visionOS")
+ * @returns Results available on the platform or of unknown availability
+ */
+export function filterResultsByPlatform(results: AppleDocSearchResult[], platform: string): AppleDocSearchResult[] {
+  const wanted = normalizeName(platform);
+  return results.filter(result =>
+    !result.platforms || result.platforms.some(available => normalizeName(available) === wanted)
+  );
+}
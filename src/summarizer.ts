@@ -1,14 +1,30 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { CitationReport, checkCitations, describeCitationReport } from './citations.js';
+import { ContextDocument, packContext } from './context-packer.js';
+import { extractiveSummary } from './extractive-summarizer.js';
 import type { AppleDocSearchResult } from './search-parser.js';
 
+/**
+ * How documents are turned into an answer:
+ * - `single`: the most relevant sections of all documents go into one sampling request
+ * - `map-reduce`: each document is first condensed into notes on the question in its own request, then the notes are combined
+ */
+export type SummarizationStrategy = 'single' | 'map-reduce';
+
 /**
  * Configuration for content summarization
  */
 export interface SummarizationConfig {
   maxDocuments: number;
-  maxContentLength: number;
+  /** Token budget of the documentation context in the sampling prompt (per document for map-reduce) */
+  maxContextTokens: number;
   temperature: number;
   maxTokens: number;
+  strategy: SummarizationStrategy;
+  /** Token limit of the notes written for each document in the map step */
+  maxNoteTokens: number;
+  /** Number of map step requests sent at the same time */
+  mapConcurrency: number;
 }
 
 /**
@@ -22,6 +38,10 @@ export interface SummarizationResult {
     relevance: string;
   }>;
   sourceCount: number;
+  /** Whether the answer was written through sampling or extracted from the documents */
+  method: 'sampling' | 'extractive';
+  /** Citation check of the answer */
+  citations?: CitationReport;
 }
 
 /**
@@ -35,49 +55,202 @@ export class DocumentSummarizer {
     this.server = server;
     this.config = {
       maxDocuments: 5,
-      maxContentLength: 15000,
+      maxContextTokens: 4000,
       temperature: 0.3,
       maxTokens: 1000,
+      strategy: 'single',
+      maxNoteTokens: 600,
+      mapConcurrency: 3,
       ...config
     };
   }
 
   /**
-   * Prepare content for summarization by chunking and selecting most relevant parts
+   * Whether the connected client declared the sampling capability
    */
-  prepareContent(searchResults: AppleDocSearchResult[], documentContents: string[], userQuestion: string): string {
-    // Combine search results with their content
-    const combinedContent = searchResults.slice(0, this.config.maxDocuments).map((result, index) => {
-      const content = documentContents[index] || '';
-      return `## ${result.title}\n**URL:** ${result.url}\n**Type:** ${result.type}\n\n${content}`;
-    }).join('\n\n---\n\n');
-
-    // Truncate if content is too long
-    if (combinedContent.length > this.config.maxContentLength) {
-      const truncated = combinedContent.substring(0, this.config.maxContentLength);
-      const lastCompleteSection = truncated.lastIndexOf('\n\n---\n\n');
-      
-      if (lastCompleteSection > 0) {
-        return truncated.substring(0, lastCompleteSection) + '\n\n[Content truncated for length]';
+  supportsSampling(): boolean {
+    return Boolean(this.server.server.getClientCapabilities()?.sampling);
+  }
+
+  /**
+   * Plan targeted searches for a question using MCP SDK sampling
+   * @param maxQueries Most sub-queries to generate in addition to the original query
+   * @param signal Cancels the sampling request
+   * @returns The original query followed by distinct sub-queries; just the original query if planning fails
+   */
+  async planQueries(userQuestion: string, docsQuery: string, maxQueries: number = 4, signal?: AbortSignal): Promise<string[]> {
+    if (!this.supportsSampling()) {
+      console.error('Client does not support sampling; searching without a plan');
+      return [docsQuery];
+    }
+
+    try {
+      const samplingResult = await this.server.server.createMessage({
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `You plan searches of the Apple Developer Documentation search engine (developer.apple.com/search) for the question below.
+
+Write up to ${maxQueries} short search queries that together find the pages answering it. Search works best with:
+- Framework-qualified symbol names, e.g. "URLSessionConfiguration background", "SwiftUI NavigationStack"
+- Titles of articles and guides, e.g. "Downloading files in the background"
+- Apple terminology rather than the question's wording
+
+Question: ${userQuestion}
+Initial search: ${docsQuery}
+
+Reply with a JSON array of query strings only.`
+            }
+          }
+        ],
+        maxTokens: 300,
+        temperature: 0.2
+      }, { signal });
+
+      const reply = samplingResult.content.type === 'text' ? samplingResult.content.text : '';
+      const arrayMatch = reply.match(/\[[\s\S]*\]/);
+      let candidates: unknown[];
+      try {
+        candidates = arrayMatch ? JSON.parse(arrayMatch[0]) : reply.split('\n');
+      } catch {
+        candidates = reply.split('\n');
+      }
+
+      const queries = [docsQuery];
+      const seen = new Set([docsQuery.trim().toLowerCase()]);
+      for (const candidate of candidates) {
+        if (typeof candidate !== 'string' || candidate.trim().startsWith('```')) {
+          continue;
+        }
+        // Tolerate list markers and quotes when the model answers with lines instead of JSON
+        const query = candidate.replace(/^\s*(?:[-*]|\d+[.)])\s*/, '').replace(/^["'`]+|["'`,]+$/g, '').trim();
+        if (query && query.length <= 100 && !seen.has(query.toLowerCase()) && queries.length <= maxQueries) {
+          seen.add(query.toLowerCase());
+          queries.push(query);
+        }
       }
-      return truncated + '\n\n[Content truncated for length]';
+      return queries;
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      console.error('Error during search planning:', error);
+      return [docsQuery];
     }
+  }
 
-    return combinedContent;
+  /**
+   * Prepare content for summarization: split documents into sections and pack the ones most relevant
+   * to the question into the context token budget
+   */
+  prepareContent(searchResults: AppleDocSearchResult[], documentContents: string[], userQuestion: string): string {
+    const documents = this.toContextDocuments(searchResults, documentContents);
+    return packContext(documents, userQuestion, { maxTokens: this.config.maxContextTokens });
+  }
+
+  /**
+   * Map step of map-reduce summarization: condense each document into notes on the question, one sampling request per document.
+   * A document whose request fails contributes its most relevant sections instead.
+   * @param onProgress Called after each document with the number of documents done
+   * @returns Notes per numbered source, separated by `---`; documents with nothing relevant are left out
+   */
+  async mapDocuments(
+    searchResults: AppleDocSearchResult[],
+    documentContents: string[],
+    userQuestion: string,
+    signal?: AbortSignal,
+    onProgress?: (completed: number, total: number) => Promise<void>
+  ): Promise<string> {
+    const documents = this.toContextDocuments(searchResults, documentContents);
+
+    const notes: Array<string | undefined> = new Array(documents.length);
+    let nextIndex = 0;
+    let completed = 0;
+    const mapWorker = async () => {
+      while (nextIndex < documents.length) {
+        const index = nextIndex++;
+        const document = documents[index];
+        const excerpt = packContext([document], userQuestion, {
+          maxTokens: this.config.maxContextTokens,
+          firstSourceNumber: index + 1
+        });
+
+        try {
+          const samplingResult = await this.server.server.createMessage({
+            messages: [
+              {
+                role: 'user',
+                content: {
+                  type: 'text',
+                  text: `Take notes on the Apple Developer documentation below for answering this question: ${userQuestion}
+
+Write concise Markdown bullet points with the facts, API signatures, code, OS version requirements and caveats that help answer it. Keep declarations and code verbatim in code blocks. Leave out anything unrelated to the question. If nothing in the document is relevant, reply with exactly NOT RELEVANT.
+
+${excerpt}`
+                }
+              }
+            ],
+            maxTokens: this.config.maxNoteTokens,
+            temperature: this.config.temperature
+          }, { signal });
+
+          const text = samplingResult.content.type === 'text' ? samplingResult.content.text.trim() : '';
+          if (!/^NOT RELEVANT\.?$/i.test(text)) {
+            notes[index] = `## [${index + 1}] ${document.title}\n**URL:** ${document.url}\n\n${text || excerpt}`;
+          }
+        } catch (error) {
+          if (signal?.aborted) {
+            throw error;
+          }
+          console.error(`Error taking notes on ${document.url}:`, error);
+          notes[index] = packContext([document], userQuestion, {
+            maxTokens: this.config.maxNoteTokens,
+            firstSourceNumber: index + 1
+          });
+        }
+
+        completed++;
+        await onProgress?.(completed, documents.length);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(this.config.mapConcurrency, documents.length) }, mapWorker));
+
+    return notes.filter((note): note is string => note !== undefined).join('\n\n---\n\n');
   }
 
   /**
    * Summarize content using MCP SDK sampling
+   * @param signal Cancels the sampling request; cancellation is rethrown rather than answered with the fallback summary
+   * @param onProgress Reports map step progress of the map-reduce strategy
    */
   async summarizeContent(
     searchResults: AppleDocSearchResult[], 
     documentContents: string[], 
     userQuestion: string, 
-    docsQuery: string
+    docsQuery: string,
+    signal?: AbortSignal,
+    onProgress?: (completed: number, total: number) => Promise<void>
   ): Promise<SummarizationResult> {
+    // Create relevant docs list; its order is the source numbering used in the prompt
+    const relevantDocs = searchResults.slice(0, this.config.maxDocuments).map(result => ({
+      title: result.title,
+      url: result.url,
+      relevance: result.description || 'Related documentation'
+    }));
+
+    if (!this.supportsSampling()) {
+      return this.createExtractiveSummary(searchResults, documentContents, userQuestion, relevantDocs,
+        'This client does not support MCP sampling');
+    }
+
     try {
-      // Prepare content for summarization
-      const preparedContent = this.prepareContent(searchResults, documentContents, userQuestion);
+      // Prepare content for summarization: the packed documents, or per-document notes for map-reduce
+      const mapReduce = this.config.strategy === 'map-reduce';
+      const preparedContent = mapReduce
+        ? await this.mapDocuments(searchResults, documentContents, userQuestion, signal, onProgress)
+        : this.prepareContent(searchResults, documentContents, userQuestion);
       
       // Use MCP SDK sampling to get LLM summary with multiple messages
       const samplingResult = await this.server.server.createMessage({
@@ -94,7 +267,8 @@ Guidelines:
 - Mention OS version requirements and framework dependencies
 - Highlight any best practices, performance tips, or common pitfalls
 - Reference related APIs or alternative approaches when relevant
-- Use markdown code blocks for any code snippets or API signatures`
+- Use markdown code blocks for any code snippets or API signatures
+- Cite the numbered documentation sources inline as [n], e.g. [2] or [1][3], in every paragraph that draws on them; only cite numbers of sources you were given`
             }
           },
           {
@@ -111,7 +285,11 @@ ${userQuestion}
             role: 'user',
             content: {
               type: 'text',
-              text: `Here is the relevant Apple Developer documentation I found:
+              text: mapReduce
+                ? `Here are notes taken from each of the relevant Apple Developer documentation pages I found, as numbered sources:
+
+${preparedContent || 'None of the pages turned out to be relevant.'}`
+                : `Here is the relevant Apple Developer documentation I found, as numbered sources:
 
 ${preparedContent}`
             }
@@ -122,67 +300,80 @@ ${preparedContent}`
               type: 'text',
               text: `Please provide a clear, concise, technically detailed response that helps me implement a solution effectively. Just the markdown-formatted text response, no intro or conclusion.
 
+Cite sources as [n] after the statements they support.
+
 My question: ${userQuestion}`
             }
           }
         ],
         maxTokens: this.config.maxTokens,
         temperature: this.config.temperature
-      });
+      }, { signal });
 
-      // Extract summary from sampling result
-      const summaryText = samplingResult.content.type === 'text' 
-        ? samplingResult.content.text 
-        : 'Unable to generate summary from the provided content.';
+      if (samplingResult.content.type !== 'text') {
+        return this.createExtractiveSummary(searchResults, documentContents, userQuestion, relevantDocs,
+          'The client returned no text answer');
+      }
 
-      // Create relevant docs list
-      const relevantDocs = searchResults.slice(0, this.config.maxDocuments).map(result => ({
-        title: result.title,
-        url: result.url,
-        relevance: result.description || 'Related documentation'
-      }));
+      // Check that citations point at real sources and flag unsupported paragraphs
+      const { text, report } = checkCitations(samplingResult.content.text, relevantDocs.length);
 
       return {
-        insights: summaryText,
+        insights: text,
         relevantDocs,
-        sourceCount: Math.min(searchResults.length, this.config.maxDocuments)
+        sourceCount: relevantDocs.length,
+        method: 'sampling',
+        citations: report
       };
 
     } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
       console.error('Error during summarization:', error);
-      
-      // Fallback summary if sampling fails
-      const fallbackSummary = this.createFallbackSummary(searchResults, userQuestion, docsQuery);
-      
-      return {
-        insights: fallbackSummary,
-        relevantDocs: searchResults.slice(0, this.config.maxDocuments).map(result => ({
-          title: result.title,
-          url: result.url,
-          relevance: result.description || 'Related documentation'
-        })),
-        sourceCount: Math.min(searchResults.length, this.config.maxDocuments)
-      };
+
+      // Fall back to quoting the documents if sampling fails
+      return this.createExtractiveSummary(searchResults, documentContents, userQuestion, relevantDocs,
+        'Summarization through the client failed');
     }
   }
 
   /**
-   * Create a fallback summary when sampling fails
+   * Pair search results with their fetched content, up to the document limit
    */
-  private createFallbackSummary(searchResults: AppleDocSearchResult[], userQuestion: string, docsQuery: string): string {
-    const docCount = searchResults.length;
-    const topDocs = searchResults.slice(0, 3);
-    
-    return `## Search Results Summary
-
-Found ${docCount} documentation resources related to "${docsQuery}" that may help answer your question: "${userQuestion}"
-
-**Top Resources:**
-${topDocs.map(doc => `- **${doc.title}** (${doc.type}): ${doc.description}`).join('\n')}
+  private toContextDocuments(searchResults: AppleDocSearchResult[], documentContents: string[]): ContextDocument[] {
+    return searchResults.slice(0, this.config.maxDocuments).map((result, index) => ({
+      title: result.title,
+      url: result.url,
+      type: result.type,
+      content: documentContents[index] || ''
+    }));
+  }
 
-**Note:** Automated summarization is temporarily unavailable. Please review the full documentation at the provided links for detailed information.
+  /**
+   * Answer by quoting the most relevant passages of each document when sampling is unavailable
+   * @param reason Why no written summary is available, shown above the excerpts
+   */
+  private createExtractiveSummary(
+    searchResults: AppleDocSearchResult[],
+    documentContents: string[],
+    userQuestion: string,
+    relevantDocs: SummarizationResult['relevantDocs'],
+    reason: string
+  ): SummarizationResult {
+    const excerpts = extractiveSummary(this.toContextDocuments(searchResults, documentContents), userQuestion, {
+      // Longer answers quote more passages per document
+      maxPassages: Math.max(2, Math.round(this.config.maxTokens / 400))
+    });
+    const { text, report } = checkCitations(excerpts, relevantDocs.length);
 
-**Recommendation:** Focus on the documentation marked as "API" or "Guide" types for the most relevant technical information.`;
+    return {
+      insights: `> **Note**: ${reason}, so this answer quotes the documentation passages most relevant to your question instead of summarizing them.\n\n${text}`,
+      relevantDocs,
+      sourceCount: relevantDocs.length,
+      method: 'extractive',
+      citations: report
+    };
   }
 
   /**
@@ -195,12 +386,19 @@ ${topDocs.map(doc => `- **${doc.title}** (${doc.type}): ${doc.description}`).joi
       formatted = `No insights available for the query "${docsQuery}". Please try a different question.`;
     }
 
-    formatted += `---\n\n`;
-    formatted += `This summary was generated by analyzing ${result.sourceCount} Apple Developer documentation sources.\n`;
+    const citationNote = result.citations ? describeCitationReport(result.citations) : '';
+    if (citationNote) {
+      formatted += `\n\n${citationNote}`;
+    }
+
+    formatted += `\n\n---\n\n`;
+    formatted += result.method === 'extractive'
+      ? `Sampling was not available, so this answer was extracted verbatim from ${result.sourceCount} Apple Developer documentation sources:\n\n`
+      : `This summary was generated by analyzing ${result.sourceCount} Apple Developer documentation sources:\n\n`;
     result.relevantDocs.forEach((doc, index) => {
-      formatted += `${index + 1}. [${doc.title}](${doc.url})\n`;
+      formatted += `- [${index + 1}] [${doc.title}](${doc.url})\n`;
     });
-    formatted += `*For the complete information, please refer to the original documentation.*`;
+    formatted += `\n*For the complete information, please refer to the original documentation.*`;
 
     return formatted;
   }
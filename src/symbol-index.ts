@@ -0,0 +1,330 @@
+import { APPLE_DEVELOPER_BASE_URL } from './config.js';
+import { DocLanguage } from './doc-variants.js';
+import { fetchUpstream } from './upstream.js';
+import { SingleFlight } from './cache/single-flight.js';
+
+/**
+ * Node of a DocC navigator index (`tutorials/data/index/<framework>`)
+ */
+interface NavigatorNode {
+  title: string;
+  type?: string;
+  path?: string;
+  deprecated?: boolean;
+  beta?: boolean;
+  external?: boolean;
+  children?: NavigatorNode[];
+}
+
+/**
+ * DocC navigator index document
+ */
+interface NavigatorIndex {
+  interfaceLanguages?: Record<string, NavigatorNode[]>;
+}
+
+/**
+ * A symbol (or article, sample, etc.) listed in a framework's navigator index
+ */
+export interface SymbolEntry {
+  title: string;
+  /** Normalized kind (class, protocol, method, ...) */
+  kind: string;
+  /** Documentation URL */
+  url: string;
+  /** Titles of the enclosing symbols, outermost first */
+  parents: string[];
+  deprecated: boolean;
+  beta: boolean;
+}
+
+/**
+ * How a symbol matched the lookup query, best first
+ */
+export type SymbolMatchType = 'exact' | 'qualified' | 'prefix' | 'substring' | 'fuzzy';
+
+/**
+ * A symbol lookup result
+ */
+export type SymbolMatch = SymbolEntry & {
+  match: SymbolMatchType;
+  score: number;
+};
+
+/**
+ * Symbol index configuration
+ */
+export interface SymbolIndexConfig {
+  /** How long a downloaded navigator index is reused, in seconds */
+  ttl: number;
+}
+
+/**
+ * Navigator `type` values mapped to the kind names used in results.
+ * `groupMarker` entries are section headings and are not listed.
+ */
+const NAVIGATOR_KIND_NAMES: Record<string, string> = {
+  module: 'framework',
+  class: 'class',
+  struct: 'struct',
+  protocol: 'protocol',
+  enum: 'enum',
+  extension: 'extension',
+  typealias: 'typealias',
+  assoctype: 'associatedtype',
+  macro: 'macro',
+  func: 'function',
+  method: 'method',
+  init: 'initializer',
+  subscript: 'subscript',
+  op: 'operator',
+  property: 'property',
+  var: 'variable',
+  let: 'constant',
+  case: 'case',
+  article: 'article',
+  sampleCode: 'sample',
+  tutorial: 'tutorial',
+  overview: 'tutorial',
+  collection: 'collection',
+  symbol: 'symbol'
+};
+
+/**
+ * Kind names accepted by the `kind` filter
+ */
+export const SYMBOL_KINDS = Array.from(new Set(Object.values(NAVIGATOR_KIND_NAMES))) as [string, ...string[]];
+
+/**
+ * DocC `interfaceLanguages` keys for each supported language
+ */
+const NAVIGATOR_LANGUAGE_KEYS: Record<DocLanguage, string> = {
+  swift: 'swift',
+  objc: 'occ'
+};
+
+/**
+ * Match priority; lower ranks sort first
+ */
+const MATCH_RANKS: Record<SymbolMatchType, number> = {
+  exact: 0,
+  qualified: 1,
+  prefix: 2,
+  substring: 3,
+  fuzzy: 4
+};
+
+/**
+ * Reduce a navigator title to the bare symbol name, lowercased.
+ * Navigator titles are declarations (`var interiorPolygons: [MKPolygon]?`, `init(coordinates:count:)`,
+ * `+ polygonWithPoints:count:`), so keywords, modifiers and signatures are stripped.
+ */
+function baseName(title: string): string {
+  const name = title
+    .trim()
+    .replace(/^[+-]\s*/, '')
+    .replace(/^((@\w+|static|class|final|override|mutating|nonmutating|convenience|required|optional|dynamic|nonisolated)\s+)+/, '')
+    .replace(/^(var|let|func|case|typealias|associatedtype|subscript|macro|operator|struct|protocol|enum|actor|extension)\s+/, '')
+    .match(/^[^\s(:<]+/);
+  return (name ? name[0] : title).toLowerCase();
+}
+
+/**
+ * Levenshtein edit distance, capped at `max + 1` to keep fuzzy matching cheap
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) {
+      return max + 1;
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Score a symbol against a query
+ * @returns The match or undefined if the symbol does not match
+ */
+function matchSymbol(entry: SymbolEntry, query: string): SymbolMatch | undefined {
+  const title = entry.title.toLowerCase();
+  const name = baseName(entry.title);
+  const needle = query.toLowerCase();
+
+  // Qualified names (`MKPolygon.interiorPolygons`) match against the parent chain
+  const segments = needle.split('.').filter(Boolean);
+  if (segments.length > 1) {
+    const qualified = [...entry.parents.map(baseName), name];
+    const tail = qualified.slice(-segments.length);
+    if (tail.length === segments.length && tail.every((part, i) => part === baseName(segments[i]))) {
+      return { ...entry, match: 'qualified', score: 95 };
+    }
+    return undefined;
+  }
+
+  if (entry.title === query) {
+    return { ...entry, match: 'exact', score: 100 };
+  }
+  // Paths spell out full selectors, e.g. `.../mkpolygon/init(coordinates:count:)`
+  if (new URL(entry.url).pathname.toLowerCase().endsWith(`/${needle}`)) {
+    return { ...entry, match: 'exact', score: 99 };
+  }
+  if (title === needle || name === baseName(query)) {
+    return { ...entry, match: 'exact', score: 98 };
+  }
+  if (name.startsWith(needle)) {
+    return { ...entry, match: 'prefix', score: 80 - Math.min(20, name.length - needle.length) };
+  }
+  if (name.includes(needle)) {
+    return { ...entry, match: 'substring', score: 50 - Math.min(20, name.length - needle.length) };
+  }
+
+  const maxDistance = Math.max(1, Math.floor(needle.length / 4));
+  const distance = editDistance(name, needle, maxDistance);
+  if (distance <= maxDistance) {
+    return { ...entry, match: 'fuzzy', score: 30 - distance * 5 };
+  }
+  return undefined;
+}
+
+/**
+ * Resolves symbol names to documentation URLs using the navigator indexes DocC publishes per framework.
+ * Indexes are downloaded on first use and kept in memory for the configured TTL.
+ */
+export class SymbolIndex {
+  private config: SymbolIndexConfig;
+  private indexes: Map<string, { entries: SymbolEntry[]; fetchedAt: number }> = new Map();
+  private inFlight = new SingleFlight<SymbolEntry[]>();
+
+  constructor(config: Partial<SymbolIndexConfig> = {}) {
+    this.config = {
+      ttl: 6 * 60 * 60,
+      ...config
+    };
+  }
+
+  /**
+   * Build the navigator index URL for a framework
+   */
+  getIndexUrl(framework: string): string {
+    return `${APPLE_DEVELOPER_BASE_URL}/tutorials/data/index/${encodeURIComponent(framework.toLowerCase())}`;
+  }
+
+  /**
+   * Flatten navigator nodes into symbol entries
+   */
+  private flatten(nodes: NavigatorNode[], language: DocLanguage, parents: string[], entries: SymbolEntry[], seen: Set<string>): void {
+    for (const node of nodes) {
+      if (node.type === 'groupMarker' || node.external) {
+        continue;
+      }
+
+      // Symbols curated under several topics appear more than once; keep the first
+      if (node.path && !seen.has(node.path)) {
+        seen.add(node.path);
+        entries.push({
+          title: node.title,
+          kind: NAVIGATOR_KIND_NAMES[node.type || 'symbol'] || node.type || 'symbol',
+          url: `${APPLE_DEVELOPER_BASE_URL}${node.path}${language === 'objc' ? '?language=objc' : ''}`,
+          parents,
+          deprecated: node.deprecated === true,
+          beta: node.beta === true
+        });
+      }
+
+      if (node.children) {
+        this.flatten(node.children, language, node.path ? [...parents, node.title] : parents, entries, seen);
+      }
+    }
+  }
+
+  /**
+   * Get the symbols of a framework, downloading its navigator index if needed.
+   * Concurrent calls for the same index share one download.
+   * @param framework Framework name as used in documentation URLs (e.g. `mapkit`)
+   * @param language Interface language
+   * @param signal Cancels this caller's wait; the download stops once every caller has cancelled
+   * @returns The framework's symbols
+   */
+  async getSymbols(framework: string, language: DocLanguage = 'swift', signal?: AbortSignal): Promise<SymbolEntry[]> {
+    const key = `${framework.toLowerCase()}:${language}`;
+    const cached = this.indexes.get(key);
+    if (cached && (Date.now() - cached.fetchedAt) / 1000 <= this.config.ttl) {
+      return cached.entries;
+    }
+
+    return this.inFlight.run(key, sharedSignal => this.loadSymbols(framework, language, key, sharedSignal), signal);
+  }
+
+  /**
+   * Download and flatten a navigator index, storing the result under `key`
+   */
+  private async loadSymbols(framework: string, language: DocLanguage, key: string, signal: AbortSignal): Promise<SymbolEntry[]> {
+    const indexUrl = this.getIndexUrl(framework);
+    console.error(`Fetching navigator index from: ${indexUrl}`);
+
+    const response = await fetchUpstream(indexUrl, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
+        'Accept': 'application/json',
+      },
+      signal,
+    });
+
+    if (response.status === 404) {
+      throw new Error(`No navigator index found for framework "${framework}"`);
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to fetch navigator index: ${response.status}`);
+    }
+
+    const index = await response.json() as NavigatorIndex;
+    const nodes = index.interfaceLanguages?.[NAVIGATOR_LANGUAGE_KEYS[language]] || [];
+
+    const entries: SymbolEntry[] = [];
+    this.flatten(nodes, language, [], entries, new Set());
+    this.indexes.set(key, { entries, fetchedAt: Date.now() });
+    console.error(`📇 Indexed ${entries.length} ${language} symbols for ${framework}`);
+
+    return entries;
+  }
+
+  /**
+   * Look up symbols by exact, qualified (`Type.member`), prefix, substring or fuzzy name
+   * @param framework Framework name
+   * @param query Symbol name
+   * @param options Kind filter, language, result limit and a signal that cancels loading the index
+   * @returns Matches ordered by match quality
+   */
+  async lookup(
+    framework: string,
+    query: string,
+    options: { kind?: string; language?: DocLanguage; limit?: number; signal?: AbortSignal } = {}
+  ): Promise<SymbolMatch[]> {
+    const symbols = await this.getSymbols(framework, options.language, options.signal);
+    const trimmed = query.trim();
+
+    return symbols
+      .filter(entry => !options.kind || entry.kind === options.kind)
+      .map(entry => matchSymbol(entry, trimmed))
+      .filter((match): match is SymbolMatch => match !== undefined)
+      .sort((a, b) =>
+        MATCH_RANKS[a.match] - MATCH_RANKS[b.match] ||
+        b.score - a.score ||
+        a.parents.length - b.parents.length
+      )
+      .slice(0, options.limit ?? 10);
+  }
+}
@@ -0,0 +1,144 @@
+import { Response, RequestInit } from 'node-fetch';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { APPLE_DEVELOPER_BASE_URL, APPLE_DOCS_ASSETS_BASE_URL, HttpConfig, getConfig } from './config.js';
+import { HttpClient } from './http-client.js';
+import { throwIfCancelled } from './cancellation.js';
+
+/**
+ * Where a canonical Apple URL is actually served from
+ */
+export type UpstreamTarget =
+  | { kind: 'http'; url: string }
+  | { kind: 'file'; filePath: string };
+
+/**
+ * MIME types for files served from a filesystem mirror
+ */
+const MIRROR_MIME_TYPES: Record<string, string> = {
+  '.json': 'application/json',
+  '.html': 'text/html',
+  '.zip': 'application/zip',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.svg': 'image/svg+xml',
+};
+
+/**
+ * Convert a configured base (URL or directory) to a local directory, if it is one
+ */
+function baseToDirectory(base: string): string | null {
+  if (/^https?:\/\//i.test(base)) {
+    return null;
+  }
+  if (/^file:\/\//i.test(base)) {
+    return fileURLToPath(base);
+  }
+  return base;
+}
+
+/**
+ * Map a URL path and query onto a file inside a mirror directory, matching the layout of the `examples/` folder.
+ * Paths without an extension get the extension of what Apple serves there: `.json` for the DocC data API
+ * (e.g. the navigator index `/tutorials/data/index/mapkit`), `.html` for pages (e.g. `/search/?q=mapkit`).
+ */
+function resolveMirrorPath(rootDir: string, urlObj: URL): string {
+  let relative = decodeURIComponent(urlObj.pathname) + decodeURIComponent(urlObj.search);
+  const lastSegment = urlObj.pathname.split('/').pop() || '';
+  if (!path.extname(lastSegment)) {
+    relative += urlObj.pathname.startsWith('/tutorials/data/') ? '.json' : '.html';
+  }
+
+  const root = path.resolve(rootDir);
+  const filePath = path.resolve(root, '.' + relative);
+  if (filePath !== root && !filePath.startsWith(root + path.sep)) {
+    throw new Error(`Path escapes the mirror directory: ${urlObj.pathname}`);
+  }
+  return filePath;
+}
+
+/**
+ * Resolve a canonical developer.apple.com or docs-assets URL to the configured upstream.
+ * URLs on other hosts are returned unchanged.
+ */
+export function resolveUpstream(url: string): UpstreamTarget {
+  const { developerBaseUrl, assetsBaseUrl } = getConfig().upstream;
+
+  let urlObj: URL;
+  try {
+    urlObj = new URL(url);
+  } catch {
+    return { kind: 'http', url };
+  }
+
+  // Compare origins exactly, so look-alike hosts such as developer.apple.com.example are never redirected
+  let base: string | null = null;
+  if (urlObj.origin === APPLE_DOCS_ASSETS_BASE_URL) {
+    base = assetsBaseUrl;
+  } else if (urlObj.origin === APPLE_DEVELOPER_BASE_URL) {
+    base = developerBaseUrl;
+  }
+
+  if (!base) {
+    return { kind: 'http', url };
+  }
+
+  const directory = baseToDirectory(base);
+  if (directory) {
+    return { kind: 'file', filePath: resolveMirrorPath(directory, urlObj) };
+  }
+
+  return { kind: 'http', url: `${base.replace(/\/+$/, '')}${urlObj.pathname}${urlObj.search}` };
+}
+
+/**
+ * Read a file from a filesystem mirror as a fetch Response
+ */
+async function readMirrorFile(filePath: string): Promise<Response> {
+  try {
+    const data = await fs.readFile(filePath);
+    const mimeType = MIRROR_MIME_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream';
+    return new Response(data, {
+      status: 200,
+      headers: { 'Content-Type': mimeType },
+    });
+  } catch (error: any) {
+    if (error?.code === 'ENOENT' || error?.code === 'EISDIR') {
+      return new Response(`Not found in mirror: ${filePath}`, {
+        status: 404,
+        statusText: 'Not Found',
+      });
+    }
+    throw error;
+  }
+}
+
+let httpClient: { client: HttpClient; config: HttpConfig } | null = null;
+
+/**
+ * Get the shared HTTP client, recreating it when the configuration has been replaced
+ */
+function getHttpClient(): HttpClient {
+  const config = getConfig().http;
+  if (!httpClient || httpClient.config !== config) {
+    httpClient = { client: new HttpClient(config), config };
+  }
+  return httpClient.client;
+}
+
+/**
+ * Fetch a canonical Apple URL through the configured upstream (Apple, an HTTP mirror or a directory)
+ * @param url Canonical https://developer.apple.com or https://docs-assets.developer.apple.com URL
+ * @param init Fetch options (only `signal` applies to filesystem mirrors)
+ * @returns The fetch response. HTTP requests go through the shared client, which retries and rate limits them.
+ */
+export async function fetchUpstream(url: string, init?: RequestInit): Promise<Response> {
+  const target = resolveUpstream(url);
+  if (target.kind === 'file') {
+    throwIfCancelled(init?.signal as AbortSignal | undefined);
+    console.error(`Reading ${url} from mirror: ${target.filePath}`);
+    return readMirrorFile(target.filePath);
+  }
+  return getHttpClient().fetch(target.url, init);
+}
@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkCitations, describeCitationReport } from '../dist/citations.js';
+
+test('keeps citations of known sources and marks unknown ones', () => {
+  const { text, report } = checkCitations('Use interiorPolygons [2] and MKPolygon [1][7].', 3);
+  assert.equal(text, 'Use interiorPolygons [2] and MKPolygon [1][7?].');
+  assert.deepEqual(report, { cited: [1, 2], invalid: [7], uncitedParagraphs: 0 });
+});
+
+test('checks every number of a grouped citation', () => {
+  const { text, report } = checkCitations('Render it with MKPolygonRenderer [3, 9].', 3);
+  assert.equal(text, 'Render it with MKPolygonRenderer [3, 9?].');
+  assert.deepEqual(report.invalid, [9]);
+});
+
+test('ignores brackets inside inline code spans and fenced code', () => {
+  const answer = 'Read `points[0]` and ``pts[1]`` first [1].\n\n```swift\nlet p = points[2]\n```';
+  const { text, report } = checkCitations(answer, 1);
+  assert.equal(text, answer);
+  assert.deepEqual(report, { cited: [1], invalid: [], uncitedParagraphs: 0 });
+});
+
+test('a code span alone does not count as a citation', () => {
+  const { text, report } = checkCitations('Index with `points[1]`.', 1);
+  assert.equal(text, 'Index with `points[1]`. *[uncited]*');
+  assert.equal(report.uncitedParagraphs, 1);
+});
+
+test('does not treat Markdown links as citations', () => {
+  const { report } = checkCitations('See [1](https://developer.apple.com) for details.', 1);
+  assert.equal(report.uncitedParagraphs, 1);
+  assert.deepEqual(report.cited, []);
+});
+
+test('flags only prose paragraphs without a citation', () => {
+  const table = '| API | Since |\n|-----|-------|\n| MKPolygon | iOS 4 |';
+  const list = '- first\n- second';
+  const answer = ['## Heading', 'An uncited claim.', 'Here is how:', table, list, '> A quote'].join('\n\n');
+  const { text, report } = checkCitations(answer, 2);
+  assert.equal(report.uncitedParagraphs, 1);
+  assert.equal(text, ['## Heading', 'An uncited claim. *[uncited]*', 'Here is how:', table, list, '> A quote'].join('\n\n'));
+});
+
+test('describes the problems found', () => {
+  assert.equal(describeCitationReport({ cited: [1], invalid: [], uncitedParagraphs: 0 }), '');
+  assert.equal(
+    describeCitationReport({ cited: [], invalid: [4], uncitedParagraphs: 2 }),
+    '**Citation check:** [4] does not match any source (marked `?`); 2 paragraphs cite no source (marked *[uncited]*).'
+  );
+});
@@ -0,0 +1,56 @@
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { loadConfig, DEFAULT_HTTP_CONFIG } from '../dist/config.js';
+
+const ENV_NAMES = ['APPLE_DOCS_MCP_CONFIG', 'APPLE_DOCS_HTTP_TIMEOUT', 'APPLE_DOCS_HTTP_RETRIES', 'APPLE_DOCS_HTTP_CONCURRENCY'];
+const originalEnv = Object.fromEntries(ENV_NAMES.map(name => [name, process.env[name]]));
+
+/**
+ * Point APPLE_DOCS_MCP_CONFIG at a config file holding the given http section
+ */
+function useConfigFile(http) {
+  const file = path.join(mkdtempSync(path.join(tmpdir(), 'apple-docs-config-')), 'config.json');
+  writeFileSync(file, JSON.stringify({ http }));
+  process.env.APPLE_DOCS_MCP_CONFIG = file;
+}
+
+afterEach(() => {
+  for (const name of ENV_NAMES) {
+    if (originalEnv[name] === undefined) {
+      delete process.env[name];
+    } else {
+      process.env[name] = originalEnv[name];
+    }
+  }
+});
+
+test('reads http settings from the config file, with the environment taking precedence', () => {
+  useConfigFile({ timeout: 5, retries: 1, maxConcurrency: 2 });
+  process.env.APPLE_DOCS_HTTP_RETRIES = '0';
+
+  assert.deepEqual(loadConfig().http, { ...DEFAULT_HTTP_CONFIG, timeout: 5, retries: 0, maxConcurrency: 2 });
+});
+
+test('rejects invalid http settings in the config file', () => {
+  for (const [http, message] of [
+    [{ timeout: 0 }, /http\.timeout in the config file must be a positive number of seconds, got 0/],
+    [{ retries: -1 }, /http\.retries in the config file must be a non-negative number of retries, got -1/],
+    [{ maxConcurrency: '4' }, /http\.maxConcurrency in the config file must be a non-negative number of requests, got "4"/],
+    [{ retryBaseDelay: null }, /http\.retryBaseDelay in the config file must be a non-negative number of seconds, got null/]
+  ]) {
+    useConfigFile(http);
+    assert.throws(() => loadConfig(), message);
+  }
+});
+
+test('rejects invalid http settings in the environment', () => {
+  process.env.APPLE_DOCS_HTTP_TIMEOUT = '0';
+  assert.throws(() => loadConfig(), /APPLE_DOCS_HTTP_TIMEOUT must be a positive number of seconds, got "0"/);
+
+  process.env.APPLE_DOCS_HTTP_TIMEOUT = '10';
+  process.env.APPLE_DOCS_HTTP_CONCURRENCY = 'many';
+  assert.throws(() => loadConfig(), /APPLE_DOCS_HTTP_CONCURRENCY must be a non-negative number of requests, got "many"/);
+});
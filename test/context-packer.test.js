@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { chunkDocument, packContext, scoreChunks, selectChunks, splitSections } from '../dist/context-packer.js';
+
+function chunk(text, { heading = '', documentIndex = 0, position = 0 } = {}) {
+  return { documentIndex, position, heading, text, tokens: Math.ceil(text.length / 4), score: 0 };
+}
+
+function page(title, sections) {
+  return `# ${title}\n\n**Source:** https://developer.apple.com/documentation/mapkit/${title.toLowerCase()}\n\n${sections.join('\n\n')}`;
+}
+
+test('scores chunks that contain the question terms above those that do not', () => {
+  const [matching, other] = scoreChunks([
+    chunk('Interior polygons cut holes into the shape.'),
+    chunk('Renderers draw overlays on the map view.')
+  ], 'How do I cut holes?');
+
+  assert.ok(matching.score > other.score);
+});
+
+test('weights rare terms above terms found in every chunk', () => {
+  const [rare, common] = scoreChunks([
+    chunk('Polygon overlay with interior holes.', { position: 0 }),
+    chunk('Polygon overlay with a stroke color.', { position: 1 }),
+    chunk('Polygon overlay with a fill color.', { position: 2 })
+  ], 'polygon holes');
+
+  assert.ok(rare.score > common.score);
+});
+
+test('favors answer sections over boilerplate and earlier search results over later ones', () => {
+  const text = 'Interior polygons cut holes.';
+  const [discussion, seeAlso] = scoreChunks([chunk(text, { heading: 'Discussion' }), chunk(text, { heading: 'See Also' })], 'holes');
+  assert.ok(discussion.score > seeAlso.score);
+
+  const [first, later] = scoreChunks([chunk(text, { documentIndex: 0 }), chunk(text, { documentIndex: 3 })], 'holes');
+  assert.ok(first.score > later.score);
+});
+
+test('splits documents into sections and long sections into continued chunks', () => {
+  const content = page('MKPolygon', ['A closed polygon overlay.', '## Discussion', 'First paragraph.\n\nSecond paragraph.']);
+
+  assert.deepEqual(splitSections(content).map(section => section.heading), ['', 'Discussion']);
+
+  const chunks = chunkDocument(content, 0, 8);
+  assert.deepEqual(chunks.map(c => c.text), [
+    'A closed polygon overlay.',
+    '## Discussion\n\nFirst paragraph.',
+    '## Discussion (continued)\n\nSecond paragraph.'
+  ]);
+});
+
+test('gives every document its best chunk before filling the budget by score', () => {
+  const documents = [
+    { title: 'MKPolygon', url: 'u0', type: 'documentation', content: page('MKPolygon', ['## Discussion', 'Interior polygons cut holes. Holes holes holes.', '## Topics', 'Many holes listed here.']) },
+    { title: 'MKOverlay', url: 'u1', type: 'documentation', content: page('MKOverlay', ['## Overview', 'Overlays are drawn above the map.']) }
+  ];
+
+  const { selected, omitted } = selectChunks(documents, 'holes', { maxTokens: 60, maxChunkTokens: 100 });
+
+  assert.deepEqual([...selected.keys()], [0, 1]);
+  assert.equal(selected.get(0)[0].heading, 'Discussion');
+  assert.equal(omitted, 1);
+});
+
+test('packs selected chunks under numbered document headers', () => {
+  const documents = [
+    { title: 'MKPolygon', url: 'https://developer.apple.com/documentation/mapkit/mkpolygon', type: 'documentation', content: page('MKPolygon', ['A closed polygon overlay.']) }
+  ];
+
+  const packed = packContext(documents, 'polygon', { firstSourceNumber: 3 });
+  assert.equal(packed, '## [3] MKPolygon\n**URL:** https://developer.apple.com/documentation/mapkit/mkpolygon\n**Type:** documentation\n\nA closed polygon overlay.');
+});
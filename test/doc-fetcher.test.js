@@ -0,0 +1,72 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { readFileSync } from 'node:fs';
+import { getConfig, setConfig } from '../dist/config.js';
+import { fetchAppleDocJson } from '../dist/doc-fetcher.js';
+
+const PAGE = 'https://developer.apple.com/documentation/mapkit';
+const POLYGON_JSON = readFileSync(new URL('../examples/tutorials/data/documentation/mapkit/mkpolygon.json', import.meta.url));
+
+/**
+ * Redirects each path to its Location, serving MKPolygon for any other JSON path
+ */
+const REDIRECTS = {
+  '/tutorials/data/documentation/mapkit/moved.json': '/tutorials/data/documentation/mapkit/mkpolygon.json',
+  '/tutorials/data/documentation/mapkit/lookalike.json': 'https://developer.apple.com.evil.example/tutorials/data/documentation/mapkit/mkpolygon.json',
+  '/tutorials/data/documentation/mapkit/chain.json': '/tutorials/data/documentation/mapkit/lookalike.json'
+};
+
+let server;
+let originalConfig;
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    const location = REDIRECTS[req.url];
+    if (location) {
+      res.writeHead(301, { Location: location });
+      res.end();
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(POLYGON_JSON);
+  });
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  originalConfig = getConfig();
+  setConfig({
+    ...originalConfig,
+    upstream: { ...originalConfig.upstream, developerBaseUrl: `http://127.0.0.1:${server.address().port}` },
+    http: { ...originalConfig.http, retries: 0, requestsPerSecond: 0 }
+  });
+});
+
+after(() => {
+  setConfig(originalConfig);
+  server.close();
+});
+
+test('follows redirects within developer.apple.com and reports them', async () => {
+  const result = await fetchAppleDocJson(`${PAGE}/moved`);
+
+  assert.equal(result.isError, undefined);
+  assert.deepEqual(result.structuredContent.redirectedFrom, [`${PAGE}/moved`]);
+});
+
+test('refuses redirects to look-alike hosts anywhere in the chain', async () => {
+  for (const path of ['lookalike', 'chain']) {
+    const result = await fetchAppleDocJson(`${PAGE}/${path}`);
+
+    assert.equal(result.isError, true);
+    assert.match(result.content[0].text, /Redirected outside developer\.apple\.com: https:\/\/developer\.apple\.com\.evil\.example\//);
+  }
+});
+
+test('only fetches developer.apple.com URLs', async () => {
+  for (const url of ['https://evil.example/?developer.apple.com', 'https://developer.apple.com.example.com/documentation/mapkit']) {
+    const result = await fetchAppleDocJson(url);
+
+    assert.equal(result.isError, true);
+    assert.match(result.content[0].text, /URL must be from developer\.apple\.com/);
+  }
+});
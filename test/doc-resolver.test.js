@@ -0,0 +1,104 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { resolveDocInput } from '../dist/doc-resolver.js';
+
+const BASE = 'https://developer.apple.com';
+const POLYGON_URL = `${BASE}/documentation/mapkit/mkpolygon`;
+const POLYGON_JSON = `${BASE}/tutorials/data/documentation/mapkit/mkpolygon.json`;
+
+/**
+ * Symbol index stand-in that answers lookups from a fixed list and records them
+ */
+function fakeIndex(matches = []) {
+  const lookups = [];
+  return {
+    lookups,
+    async lookup(framework, symbol, options) {
+      lookups.push({ framework, symbol, options });
+      return matches;
+    },
+    async getSymbols() {
+      throw new Error('the navigator index should not be loaded');
+    }
+  };
+}
+
+function symbolMatch(title, url, match = 'exact', parents = ['MapKit']) {
+  return { title, kind: 'class', url, parents, deprecated: false, beta: false, match, score: 100 };
+}
+
+test('normalizes developer.apple.com URLs and keeps JSON API URLs', async () => {
+  assert.deepEqual(await resolveDocInput(`${POLYGON_URL}/`, fakeIndex()), { url: POLYGON_URL, jsonUrl: POLYGON_JSON, form: 'url' });
+  assert.equal((await resolveDocInput(POLYGON_JSON, fakeIndex())).jsonUrl, POLYGON_JSON);
+  assert.equal((await resolveDocInput(`${POLYGON_URL}?language=objc`, fakeIndex())).url, `${POLYGON_URL}?language=objc`);
+});
+
+test('rejects other hosts, including other apple.com hosts', async () => {
+  for (const url of [
+    'https://docs-assets.developer.apple.com/documentation/mapkit',
+    'https://developer.apple.com.example.com/documentation/mapkit',
+    'https://example.com/documentation/mapkit'
+  ]) {
+    await assert.rejects(resolveDocInput(url, fakeIndex()), /must be from developer\.apple\.com/);
+  }
+});
+
+test('accepts scheme-less URLs and site paths', async () => {
+  assert.deepEqual(await resolveDocInput('developer.apple.com/documentation/mapkit/mkpolygon', fakeIndex()), { url: POLYGON_URL, jsonUrl: POLYGON_JSON, form: 'path' });
+  assert.deepEqual(await resolveDocInput('/documentation/mapkit/mkpolygon?language=objc', fakeIndex()), { url: `${POLYGON_URL}?language=objc`, jsonUrl: POLYGON_JSON, form: 'path' });
+});
+
+test('resolves doc:// identifiers and apple-docs:// resource URIs', async () => {
+  assert.deepEqual(await resolveDocInput('doc://com.apple.mapkit/documentation/MapKit/MKPolygon', fakeIndex()), { url: POLYGON_URL, jsonUrl: POLYGON_JSON, form: 'doc-identifier' });
+  assert.deepEqual(await resolveDocInput('apple-docs://mapkit/mkpolygon?language=objc', fakeIndex()), { url: `${POLYGON_URL}?language=objc`, jsonUrl: POLYGON_JSON, form: 'apple-docs-uri' });
+  await assert.rejects(resolveDocInput('apple-docs://doc-0123abcd', fakeIndex()), /resources\/read/);
+});
+
+test('resolves a bare framework name without loading its navigator index', async () => {
+  const index = fakeIndex();
+  assert.deepEqual(await resolveDocInput('MapKit', index), {
+    url: `${BASE}/documentation/mapkit`,
+    jsonUrl: `${BASE}/tutorials/data/documentation/mapkit.json`,
+    form: 'framework'
+  });
+  assert.equal(index.lookups.length, 0);
+});
+
+test('resolves qualified symbol names and passes the signal to the index', async () => {
+  const index = fakeIndex([symbolMatch('var interiorPolygons: [MKPolygon]?', `${POLYGON_URL}/interiorpolygons`, 'qualified', ['MapKit', 'MKPolygon'])]);
+  const controller = new AbortController();
+
+  const resolved = await resolveDocInput('MapKit.MKPolygon/interiorPolygons', index, controller.signal);
+
+  assert.deepEqual(resolved, { url: `${POLYGON_URL}/interiorpolygons`, jsonUrl: `${BASE}/tutorials/data/documentation/mapkit/mkpolygon/interiorpolygons.json`, form: 'symbol' });
+  assert.equal(index.lookups[0].framework, 'MapKit');
+  assert.equal(index.lookups[0].symbol, 'MKPolygon.interiorPolygons');
+  assert.equal(index.lookups[0].options.signal, controller.signal);
+});
+
+test('prefers the overload whose path spells out the selector', async () => {
+  const index = fakeIndex([
+    symbolMatch('init(points:count:)', `${POLYGON_URL}/init(points:count:)`),
+    symbolMatch('init(coordinates:count:)', `${POLYGON_URL}/init(coordinates:count:)`)
+  ]);
+
+  const resolved = await resolveDocInput('MapKit.MKPolygon.init(coordinates:count:)', index);
+  assert.equal(resolved.url, `${POLYGON_URL}/init(coordinates:count:)`);
+});
+
+test('lists candidates for ambiguous or inexact names', async () => {
+  const ambiguous = fakeIndex([
+    symbolMatch('MKPolygon', POLYGON_URL),
+    symbolMatch('MKPolygon', `${BASE}/documentation/mapkitjs/mkpolygon`)
+  ]);
+  await assert.rejects(resolveDocInput('MapKit.MKPolygon', ambiguous), /is ambiguous\. Candidates:\n- MapKit › MKPolygon/);
+
+  const fuzzy = fakeIndex([symbolMatch('MKPolygon', POLYGON_URL, 'fuzzy')]);
+  await assert.rejects(resolveDocInput('MapKit.MKPolygn', fuzzy), /No exact match for "MapKit\.MKPolygn"\. Did you mean:/);
+
+  await assert.rejects(resolveDocInput('MapKit.Nothing', fakeIndex()), /No symbol named "Nothing" found in MapKit/);
+});
+
+test('rejects references it cannot interpret', async () => {
+  await assert.rejects(resolveDocInput('what is a polygon?', fakeIndex()), /Unrecognized documentation reference/);
+});
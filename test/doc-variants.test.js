@@ -0,0 +1,95 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyLanguageVariant, getAvailableLanguages, getDocLanguageFromUrl, withDocLanguage } from '../dist/doc-variants.js';
+
+const POLYGON_ID = 'doc://com.apple.mapkit/documentation/MapKit/MKPolygon';
+
+function polygonPage(patch) {
+  return {
+    identifier: { url: POLYGON_ID, interfaceLanguage: 'swift' },
+    metadata: { title: 'MKPolygon', roleHeading: 'Class' },
+    abstract: [{ type: 'text', text: 'A closed polygon overlay.' }],
+    topicSections: [{ title: 'Creating a polygon', identifiers: ['a', 'b'] }],
+    references: {
+      [POLYGON_ID]: { title: 'MKPolygon', fragments: [{ kind: 'keyword', text: 'class' }] },
+      'key~with~tildes': { title: 'Tilde' }
+    },
+    variants: [{ traits: [{ interfaceLanguage: 'swift' }] }, { traits: [{ interfaceLanguage: 'occ' }] }],
+    variantOverrides: [{ traits: [{ interfaceLanguage: 'occ' }], patch }]
+  };
+}
+
+test('replaces and adds object members', () => {
+  const page = polygonPage([
+    { op: 'replace', path: '/metadata/title', value: 'MKPolygon (Objective-C)' },
+    { op: 'add', path: '/metadata/platforms', value: ['macOS'] }
+  ]);
+  const { jsonData, language } = applyLanguageVariant(page, 'objc');
+
+  assert.equal(language, 'objc');
+  assert.equal(jsonData.metadata.title, 'MKPolygon (Objective-C)');
+  assert.deepEqual(jsonData.metadata.platforms, ['macOS']);
+});
+
+test('inserts into arrays at an index or at the end', () => {
+  const page = polygonPage([
+    { op: 'add', path: '/topicSections/0/identifiers/1', value: 'inserted' },
+    { op: 'add', path: '/topicSections/0/identifiers/-', value: 'appended' }
+  ]);
+  const { jsonData } = applyLanguageVariant(page, 'objc');
+
+  assert.deepEqual(jsonData.topicSections[0].identifiers, ['a', 'inserted', 'b', 'appended']);
+});
+
+test('removes array elements and object members', () => {
+  const page = polygonPage([
+    { op: 'remove', path: '/topicSections/0/identifiers/0' },
+    { op: 'remove', path: '/abstract' }
+  ]);
+  const { jsonData } = applyLanguageVariant(page, 'objc');
+
+  assert.deepEqual(jsonData.topicSections[0].identifiers, ['b']);
+  assert.equal('abstract' in jsonData, false);
+});
+
+test('decodes ~1 and ~0 escapes in pointers', () => {
+  const page = polygonPage([
+    { op: 'replace', path: '/references/doc:~1~1com.apple.mapkit~1documentation~1MapKit~1MKPolygon/title', value: 'MKPolygon (objc)' },
+    { op: 'replace', path: '/references/key~0with~0tildes/title', value: 'Tilde (objc)' }
+  ]);
+  const { jsonData } = applyLanguageVariant(page, 'objc');
+
+  assert.equal(jsonData.references[POLYGON_ID].title, 'MKPolygon (objc)');
+  assert.equal(jsonData.references['key~with~tildes'].title, 'Tilde (objc)');
+});
+
+test('skips operations on missing paths and leaves the published page untouched', () => {
+  const page = polygonPage([
+    { op: 'replace', path: '/missing/title', value: 'x' },
+    { op: 'replace', path: '/metadata/title', value: 'Patched' }
+  ]);
+  const { jsonData } = applyLanguageVariant(page, 'objc');
+
+  assert.equal(jsonData.metadata.title, 'Patched');
+  assert.equal('missing' in jsonData, false);
+  assert.equal(page.metadata.title, 'MKPolygon');
+  assert.deepEqual(jsonData.references[POLYGON_ID].sourceFragments, page.references[POLYGON_ID].fragments);
+});
+
+test('returns the page as published when no variant exists for the language', () => {
+  const page = polygonPage([]);
+  page.variantOverrides = [];
+
+  assert.deepEqual(applyLanguageVariant(page, 'objc'), { jsonData: page, language: 'swift' });
+  assert.equal(applyLanguageVariant(page, 'swift').jsonData, page);
+});
+
+test('reads and writes the language query of page URLs', () => {
+  const url = 'https://developer.apple.com/documentation/mapkit/mkpolygon';
+
+  assert.equal(getDocLanguageFromUrl(`${url}?language=objc`), 'objc');
+  assert.equal(getDocLanguageFromUrl(url), 'swift');
+  assert.equal(withDocLanguage(url, 'objc'), `${url}?language=objc`);
+  assert.equal(withDocLanguage(`${url}?language=objc`, 'swift'), url);
+  assert.deepEqual(getAvailableLanguages(polygonPage([])), ['swift', 'objc']);
+});
@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DocumentCache, DEFAULT_CACHE_TTL } from '../dist/cache/document-cache.js';
+import { detectDocumentType } from '../dist/cache/cache-integration.js';
+
+function cachedDocument(url, type, ageSeconds) {
+  return {
+    url,
+    hash: 'doc-00000000',
+    markdown: '# Page',
+    title: 'Page',
+    type,
+    timestamp: new Date(Date.now() - ageSeconds * 1000),
+    accessCount: 0
+  };
+}
+
+test('detects framework landing pages', () => {
+  assert.equal(detectDocumentType('https://developer.apple.com/documentation/mapkit'), 'framework');
+  assert.equal(detectDocumentType('https://developer.apple.com/documentation/swiftui/'), 'framework');
+  assert.equal(detectDocumentType('https://developer.apple.com/documentation/mapkit/mkpolygon'), 'api');
+  assert.equal(detectDocumentType('https://developer.apple.com/documentation/mapkit/mkoverlayprotocol'), 'protocol');
+});
+
+test('applies the framework TTL to framework landing pages', () => {
+  const cache = new DocumentCache({ ttl: { framework: 100, default: 1000 } });
+  const url = 'https://developer.apple.com/documentation/mapkit';
+  const type = detectDocumentType(url);
+
+  assert.equal(cache.getTtl(type), 100);
+  assert.equal(cache.isStale(cachedDocument(url, type, 200)), true);
+  assert.equal(cache.isStale(cachedDocument(url, 'api', 200)), false);
+});
+
+test('uses the default TTLs when none are configured', () => {
+  const cache = new DocumentCache();
+
+  assert.equal(cache.getTtl('framework'), DEFAULT_CACHE_TTL.framework);
+  assert.equal(cache.getTtl('class'), DEFAULT_CACHE_TTL.default);
+});
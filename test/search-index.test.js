@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DocumentSearchIndex, tokenize } from '../dist/cache/search-index.js';
+
+function cachedDocument(slug, title, markdown) {
+  return {
+    url: `https://developer.apple.com/documentation/mapkit/${slug}`,
+    hash: slug,
+    title,
+    markdown,
+    type: 'api',
+    timestamp: new Date(),
+    accessCount: 0
+  };
+}
+
+test('tokenizes identifiers whole and by their camelCase parts', () => {
+  assert.deepEqual(tokenize('The interiorPolygons of MKPolygon'), ['interiorpolygons', 'interior', 'polygons', 'mkpolygon', 'mk', 'polygon']);
+});
+
+test('highlights whole words and camelCase parts, not matches inside other words', () => {
+  const index = new DocumentSearchIndex();
+  index.add(cachedDocument('overlay', 'Overlay', 'Show a preview of the map, then present the view. Holes are listed in interiorPolygons.'));
+
+  const [hit] = index.search('view polygons', 5);
+  assert.equal(hit.snippet, 'Show a preview of the map, then present the **view**. Holes are listed in interior**Polygons**.');
+});
+
+test('merges adjacent highlights of one identifier', () => {
+  const index = new DocumentSearchIndex();
+  index.add(cachedDocument('overlay', 'Overlay', 'Set interiorPolygons to cut holes.'));
+
+  const [hit] = index.search('interior polygons', 5);
+  assert.equal(hit.snippet, 'Set **interiorPolygons** to cut holes.');
+});
+
+test('centers the snippet on the densest cluster of matches', () => {
+  const index = new DocumentSearchIndex();
+  const filler = 'word '.repeat(200);
+  index.add(cachedDocument('long', 'Long', `${filler}one view here ${filler}view after view after view`));
+
+  const [hit] = index.search('view', 5);
+  assert.match(hit.snippet, /\*\*view\*\* after \*\*view\*\* after \*\*view\*\*$/);
+  assert.ok(hit.snippet.startsWith('…'));
+});
+
+test('ranks title matches above body mentions and rare terms above common ones', () => {
+  const index = new DocumentSearchIndex();
+  index.add(cachedDocument('mkpolygon', 'MKPolygon', 'A closed polygon overlay with interior holes.'));
+  index.add(cachedDocument('mkoverlay', 'MKOverlay', 'An overlay, such as MKPolygon, drawn above the map.'));
+  index.add(cachedDocument('mkmapview', 'MKMapView', 'A map view that shows overlays.'));
+
+  assert.deepEqual(index.search('MKPolygon', 5).map(hit => hit.title).slice(0, 2), ['MKPolygon', 'MKOverlay']);
+  assert.equal(index.search('overlay holes', 5)[0].title, 'MKPolygon');
+  assert.deepEqual(index.search('nothing', 5), []);
+});
+
+test('forgets removed documents', () => {
+  const index = new DocumentSearchIndex();
+  index.add(cachedDocument('mkpolygon', 'MKPolygon', 'A closed polygon overlay.'));
+  index.remove('mkpolygon');
+
+  assert.deepEqual(index.search('polygon', 5), []);
+});
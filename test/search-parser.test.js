@@ -0,0 +1,27 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyResult, filterResultsByType } from '../dist/search-parser.js';
+
+const BASE = 'https://developer.apple.com';
+
+test('classifies framework landing pages as articles, with or without tags', () => {
+  assert.equal(classifyResult(`${BASE}/documentation/mapkit/`, ['iOS 3.0+', 'macOS 10.9+'], 'documentation'), 'article');
+  assert.equal(classifyResult(`${BASE}/documentation/mapkit`), 'article');
+  assert.equal(classifyResult(`${BASE}/documentation/swiftui`, ['framework']), 'article');
+});
+
+test('classifies API collections as articles and symbols as symbols', () => {
+  assert.equal(classifyResult(`${BASE}/documentation/mapkit/overlays`, ['API Collection'], 'documentation'), 'article');
+  assert.equal(classifyResult(`${BASE}/documentation/mapkit/mkpolygon`, ['iOS 4.0+'], 'documentation'), 'symbol');
+  assert.equal(classifyResult(`${BASE}/documentation/mapkit/mkpolygon`), 'symbol');
+  assert.equal(classifyResult(`${BASE}/documentation/mapkit/creating-a-map`, ['Documentation Article']), 'article');
+});
+
+test('leaves landing pages out of api results', () => {
+  const results = [
+    { title: 'MapKit', url: `${BASE}/documentation/mapkit/`, description: '', type: 'documentation', kind: classifyResult(`${BASE}/documentation/mapkit/`, ['iOS 3.0+']) },
+    { title: 'MKPolygon', url: `${BASE}/documentation/mapkit/mkpolygon`, description: '', type: 'documentation', kind: classifyResult(`${BASE}/documentation/mapkit/mkpolygon`, ['iOS 4.0+']) }
+  ];
+
+  assert.deepEqual(filterResultsByType(results, 'api').map(result => result.title), ['MKPolygon']);
+});
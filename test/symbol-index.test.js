@@ -0,0 +1,120 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { getConfig, setConfig } from '../dist/config.js';
+import { SymbolIndex } from '../dist/symbol-index.js';
+
+const BASE = 'https://developer.apple.com/documentation/mapkit';
+
+const NAVIGATOR_INDEX = {
+  interfaceLanguages: {
+    swift: [{
+      path: '/documentation/mapkit', title: 'MapKit', type: 'module', children: [
+        { title: 'Overlays', type: 'groupMarker' },
+        {
+          path: '/documentation/mapkit/mkpolygon', title: 'MKPolygon', type: 'class', children: [
+            { path: '/documentation/mapkit/mkpolygon/init(coordinates:count:)', title: 'init(coordinates: UnsafePointer<CLLocationCoordinate2D>, count: Int)', type: 'init' },
+            { path: '/documentation/mapkit/mkpolygon/interiorpolygons', title: 'var interiorPolygons: [MKPolygon]?', type: 'property' }
+          ]
+        },
+        { path: '/documentation/mapkit/mkpolygonrenderer', title: 'MKPolygonRenderer', type: 'class' },
+        { path: '/documentation/mapkit/mkoverlay', title: 'MKOverlay', type: 'protocol' },
+        { path: '/documentation/mapkit/mkpolygon', title: 'MKPolygon', type: 'class' },
+        { path: '/documentation/mapkit/mkoverlaypathrenderer/applyfillproperties(to:atzoomscale:)', title: 'func applyFillProperties(to: CGContext, atZoomScale: MKZoomScale)', type: 'method', deprecated: true }
+      ]
+    }],
+    occ: [{
+      path: '/documentation/mapkit', title: 'MapKit', type: 'module', children: [
+        { path: '/documentation/mapkit/mkpolygon', title: 'MKPolygon', type: 'class' }
+      ]
+    }]
+  }
+};
+
+let mirror;
+let originalConfig;
+
+before(() => {
+  // Serve the navigator index from a directory mirror
+  mirror = mkdtempSync(path.join(tmpdir(), 'symbol-index-'));
+  mkdirSync(path.join(mirror, 'tutorials/data/index'), { recursive: true });
+  writeFileSync(path.join(mirror, 'tutorials/data/index/mapkit.json'), JSON.stringify(NAVIGATOR_INDEX));
+  originalConfig = getConfig();
+  setConfig({ ...originalConfig, upstream: { ...originalConfig.upstream, developerBaseUrl: mirror } });
+});
+
+after(() => {
+  setConfig(originalConfig);
+  rmSync(mirror, { recursive: true, force: true });
+});
+
+test('flattens the navigator index, skipping group markers and duplicates', async () => {
+  const symbols = await new SymbolIndex().getSymbols('MapKit');
+
+  assert.deepEqual(symbols.map(symbol => symbol.url), [
+    'https://developer.apple.com/documentation/mapkit',
+    `${BASE}/mkpolygon`,
+    `${BASE}/mkpolygon/init(coordinates:count:)`,
+    `${BASE}/mkpolygon/interiorpolygons`,
+    `${BASE}/mkpolygonrenderer`,
+    `${BASE}/mkoverlay`,
+    `${BASE}/mkoverlaypathrenderer/applyfillproperties(to:atzoomscale:)`
+  ]);
+  assert.deepEqual(symbols[3].parents, ['MapKit', 'MKPolygon']);
+  assert.equal(symbols[6].deprecated, true);
+});
+
+test('ranks exact matches before prefix matches', async () => {
+  const [first, second] = await new SymbolIndex().lookup('mapkit', 'MKPolygon');
+
+  assert.equal(first.url, `${BASE}/mkpolygon`);
+  assert.equal(first.match, 'exact');
+  assert.equal(second.url, `${BASE}/mkpolygonrenderer`);
+  assert.equal(second.match, 'prefix');
+});
+
+test('matches declarations by name, qualified names, selectors and misspellings', async () => {
+  const index = new SymbolIndex();
+
+  const [property] = await index.lookup('mapkit', 'interiorPolygons');
+  assert.equal(property.match, 'exact');
+  assert.equal(property.kind, 'property');
+
+  const [qualified] = await index.lookup('mapkit', 'MKPolygon.interiorPolygons');
+  assert.equal(qualified.match, 'qualified');
+
+  const [selector] = await index.lookup('mapkit', 'init(coordinates:count:)');
+  assert.equal(selector.url, `${BASE}/mkpolygon/init(coordinates:count:)`);
+
+  const [fuzzy] = await index.lookup('mapkit', 'MKOverlya');
+  assert.equal(fuzzy.url, `${BASE}/mkoverlay`);
+  assert.equal(fuzzy.match, 'fuzzy');
+});
+
+test('filters by kind and reads the Objective-C index', async () => {
+  const index = new SymbolIndex();
+
+  const protocols = await index.lookup('mapkit', 'MK', { kind: 'protocol' });
+  assert.deepEqual(protocols.map(match => match.title), ['MKOverlay']);
+
+  const [objc] = await index.lookup('mapkit', 'MKPolygon', { language: 'objc' });
+  assert.equal(objc.url, `${BASE}/mkpolygon?language=objc`);
+});
+
+test('shares one download between concurrent callers', async () => {
+  const index = new SymbolIndex();
+  const cancelled = new AbortController();
+
+  const first = index.getSymbols('mapkit', 'swift', cancelled.signal);
+  const second = index.getSymbols('mapkit');
+  cancelled.abort();
+
+  await assert.rejects(first, /cancelled/i);
+  assert.equal((await second).length, 7);
+});
+
+test('reports frameworks without a navigator index', async () => {
+  await assert.rejects(new SymbolIndex().getSymbols('nosuchkit'), /No navigator index found for framework "nosuchkit"/);
+});